@@ -12,8 +12,10 @@ import "@vscode-elements/elements/dist/vscode-tabs";
 
 import { getVsCodeApi } from './utils/vscode';
 import { Goals } from './components/Goals';
+import { ProofTree } from './components/ProofTree';
 import { Controls } from './components/Controls';
-import type { Goalstate, GoalviewState, GoalOptions, GoalviewMessage, MessageCommands } from '../../src/types';
+import { HistoryMarker } from './components/HistoryMarker';
+import type { GoalHistoryInfo, Goalstate, GoalviewState, GoalOptions, GoalviewMessage, MessageCommands, ProofTreeNode, SourceLocation } from '../../src/types';
 
 import './App.css';
 import { resolveConstantInfo, resetConstantInfoCache } from './utils/info';
@@ -31,6 +33,9 @@ export default function App() {
     vscode.getState()?.options ?? {}
   );
   const [goalstate, setGoalstate] = React.useState<Goalstate>();
+  const [proofTree, setProofTree] = React.useState<ProofTreeNode>();
+  const [previousGoalstate, setPreviousGoalstate] = React.useState<Goalstate>();
+  const [history, setHistory] = React.useState<GoalHistoryInfo>();
 
   React.useEffect(() => {
     // If there is no saved state then request state restoration
@@ -54,6 +59,9 @@ export default function App() {
         case 'update': {
           if (message.data) {
             setGoalstate(message.data.goalstate);
+            setProofTree(message.data.proofTree);
+            setPreviousGoalstate(message.data.previousGoalstate);
+            setHistory(message.data.history);
             setPrintTypes(Math.max(0, Math.min(message.data.printTypes | 0, 2)));
           }
           setErrorMessage('');
@@ -88,15 +96,42 @@ export default function App() {
     });
   }, [goalstate]);
 
+  const revealLocation = (location: SourceLocation) => {
+    vscode.postMessage({
+      command: 'reveal-location',
+      data: location
+    } satisfies GoalviewMessage<'reveal-location'>);
+  };
+
   return (
     <>
       {import.meta.env.DEV ? <vscode-dev-toolbar></vscode-dev-toolbar> : null}
       <div className="flex flex-col h-screen ml-2 mr-2">
         <div className="flex-1 overflow-auto">
         {/* <div className="flex-1"> */}
-          <Goals goalstate={goalstate}/>
+          {goalOptions.proofTree ?
+            <ProofTree
+              tree={proofTree}
+              goalstate={goalstate}
+              onReveal={revealLocation}
+              live={!history || history.live}
+            /> :
+            <Goals
+              goalstate={goalstate}
+              previous={goalOptions.showDiff ? previousGoalstate : undefined}
+              collapse={goalOptions.collapseGoals}
+              live={!history || history.live}
+              onFocus={history && !history.live ? undefined : (i) => {
+                vscode.postMessage({
+                  command: 'focus-goal',
+                  data: i
+                } satisfies GoalviewMessage<'focus-goal'>);
+              }}
+            />}
           <div ref={bottomGoalRef}/>
         </div>
+        {history && !history.live ?
+          <HistoryMarker history={history} onReveal={revealLocation}/> : null}
         <div className={errorMessage ? 'message' : 'hidden'}>{errorMessage ? errorMessage : ''}</div>
         <Controls
           onRefresh={() => {
@@ -115,6 +150,18 @@ export default function App() {
           }}
           goalOptions={goalOptions}
           onChangeGoalOptions={(newOptions) => setGoalOptions({ ...goalOptions, ...newOptions })}
+          history={history}
+          onMoveInHistory={(delta: number) => {
+            vscode.postMessage({
+              command: 'history',
+              data: delta
+            } satisfies GoalviewMessage<'history'>);
+          }}
+          onExport={() => {
+            vscode.postMessage({
+              command: 'export-goals'
+            } satisfies GoalviewMessage<'export-goals'>);
+          }}
         />
       </div>
     </>
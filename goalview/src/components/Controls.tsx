@@ -1,6 +1,6 @@
 import React from 'react';
-import { VscAdd, VscRemove } from "react-icons/vsc";
-import type { GoalOptions } from "../../../src/types";
+import { VscAdd, VscArrowLeft, VscArrowRight, VscRemove } from "react-icons/vsc";
+import type { GoalHistoryInfo, GoalOptions } from "../../../src/types";
 
 function ExtraSwitch({ showExtra, onClick, className }: { showExtra: boolean, onClick: () => void, className?: string }) {
   const classes = 'w-5 h-5 action-icon';
@@ -19,10 +19,13 @@ export interface ControlProps {
   onChangePrintTypes: (printTypes: number) => void;
   goalOptions: GoalOptions;
   onChangeGoalOptions: (newOptions: GoalOptions) => void;
+  history?: GoalHistoryInfo;
+  onMoveInHistory: (delta: number) => void;
+  onExport: () => void;
 };
 
 export function Controls(props: ControlProps) {
-  const { onRefresh, printTypes, onChangePrintTypes, goalOptions, onChangeGoalOptions } = props;
+  const { onRefresh, printTypes, onChangePrintTypes, goalOptions, onChangeGoalOptions, history, onMoveInHistory, onExport } = props;
   const [showExtra, setShowExtra] = React.useState<boolean>(false);
 
   return (
@@ -86,6 +89,20 @@ export function Controls(props: ControlProps) {
           <vscode-option>20</vscode-option>
           <vscode-option>100</vscode-option>
         </vscode-single-select>
+        {/* Subterms */}
+        <vscode-checkbox
+          label="Subterms"
+          title="Select subterms under the mouse pointer"
+          checked={goalOptions.spans ?? false}
+          onChange={(e) => onChangeGoalOptions({ spans: e.currentTarget.checked })}
+        />
+        {/* Collapse goals */}
+        <vscode-checkbox
+          label="Collapse goals"
+          title="Show only the current goal expanded"
+          checked={goalOptions.collapseGoals ?? false}
+          onChange={(e) => onChangeGoalOptions({ collapseGoals: e.currentTarget.checked })}
+        />
       </div>
       <div className="flex flex-row mb-2 gap-x-2 items-center">
         {/* Refresh */}
@@ -94,6 +111,25 @@ export function Controls(props: ControlProps) {
         >
           Refresh
         </vscode-button>
+        {/* Export */}
+        <vscode-button
+          secondary
+          title="Export goals to Markdown or LaTeX"
+          onClick={onExport}
+        >
+          Export
+        </vscode-button>
+        {/* History */}
+        <VscArrowLeft
+          className={'w-5 h-5 action-icon' + (history && history.index > 0 ? '' : ' disabled')}
+          title="Previous goal state"
+          onClick={() => onMoveInHistory(-1)}
+        />
+        <VscArrowRight
+          className={'w-5 h-5 action-icon' + (history && !history.live ? '' : ' disabled')}
+          title="Next goal state"
+          onClick={() => onMoveInHistory(1)}
+        />
         {/* Show types */}
         <vscode-single-select
           value={printTypes.toString()}
@@ -110,6 +146,19 @@ export function Controls(props: ControlProps) {
           checked={goalOptions.color ?? true}
           onChange={(e) => onChangeGoalOptions({ color: e.currentTarget.checked })}
         />
+        {/* Proof tree */}
+        <vscode-checkbox
+          label="Proof tree"
+          checked={goalOptions.proofTree ?? false}
+          onChange={(e) => onChangeGoalOptions({ proofTree: e.currentTarget.checked })}
+        />
+        {/* Diff */}
+        <vscode-checkbox
+          label="Diff"
+          title="Highlight changes since the previous goal state"
+          checked={goalOptions.showDiff ?? false}
+          onChange={(e) => onChangeGoalOptions({ showDiff: e.currentTarget.checked })}
+        />
         {/* Show extra options */}
         <ExtraSwitch className='ml-auto' showExtra={showExtra} onClick={() => setShowExtra(!showExtra)}/>
       </div>
@@ -1,29 +1,110 @@
 import * as React from 'react';
 
 import { ansiToReact } from '../utils/ansi';
-import type { Goal } from '../../../src/types';
+import { GoalActions } from './GoalActions';
+import { changedRanges, diffHypotheses, stripAnsi, type TextRange } from '../utils/diff';
+import type { Goal, TermSpan } from '../../../src/types';
 
 const wordPattern = /([a-z_][\da-z_']*)/i;
 
-function Term({ term }: { term: string }) {
+// Returns the position in the plain text of a term at the given point
+function plainPositionFromPoint(x: number, y: number): number | undefined {
+  const caret = document.caretRangeFromPoint?.(x, y);
+  const node = caret?.startContainer;
+  const piece = (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-start]');
+  if (!caret || !piece) {
+    return undefined;
+  }
+  const prefix = document.createRange();
+  prefix.setStart(piece, 0);
+  prefix.setEnd(caret.startContainer, caret.startOffset);
+  return +(piece.dataset.start ?? 0) + prefix.toString().length;
+}
+
+// Returns the smallest span which contains the given position
+function findSpan(spans: TermSpan[], pos: number): TermSpan | undefined {
+  let result: TermSpan | undefined;
+  for (const span of spans) {
+    if (span.start <= pos && pos < span.end && (!result || span.end - span.start < result.end - result.start)) {
+      result = span;
+    }
+  }
+  return result;
+}
+
+function spanTitle(span: TermSpan): string {
+  const kind = span.kind === 'var' ? (span.bound ? 'bound variable' : 'free variable')
+    : span.kind === 'const' ? 'constant' : '';
+  return `${span.name ? `${span.name} : ` : ''}${span.type}${kind ? ` (${kind})` : ''}`;
+}
+
+interface TermProps {
+  term: string;
+  // If spans are given then the subterm under the mouse pointer is selected
+  spans?: TermSpan[];
+  highlight?: TextRange[];
+  className?: string;
+}
+
+function Term({ term, spans, highlight, className }: TermProps) {
+  // The selected span is reset when spans change
+  const [selection, setSelection] = React.useState<{ spans: TermSpan[], span?: TermSpan }>();
+  const selected = selection && selection.spans === spans ? selection.span : undefined;
   return (
-    <pre className="overflow-x-auto term">{ansiToReact(term, wordPattern)}</pre>
+    <pre
+      className={"overflow-x-auto term" + (className ? ` ${className}` : "")}
+      title={selected && spanTitle(selected)}
+      data-subterm={selected ? stripAnsi(term).slice(selected.start, selected.end) : undefined}
+      onMouseMove={spans ? (e) => {
+        const pos = plainPositionFromPoint(e.clientX, e.clientY);
+        const span = pos === undefined ? undefined : findSpan(spans, pos);
+        if (span !== selected) {
+          setSelection({ spans, span });
+        }
+      } : undefined}
+      onMouseLeave={spans ? () => setSelection(undefined) : undefined}
+    >
+      {ansiToReact(term, wordPattern, highlight, selected && [selected.start, selected.end])}
+    </pre>
   );
 }
 
-export function Goal({ goal }: { goal: Goal }) {
+/**
+ * Displays a goal. If the previous goal is given then differences between goals are highlighted.
+ */
+export function Goal({ goal, previous, live }: { goal: Goal, previous?: Goal, live?: boolean }) {
+  const hypDiff = React.useMemo(() => previous && diffHypotheses(previous, goal), [previous, goal]);
+  const termDiff = React.useMemo(
+    () => previous && changedRanges(stripAnsi(previous.term), stripAnsi(goal.term)),
+    [previous, goal]
+  );
   return (
     <>
       <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mb-2 mt-2">
-        {goal.hypotheses.map((hyp, i) => (
-          <React.Fragment key={i}>
-            <pre className="justify-self-end term">{`${hyp.label ? `(${hyp.label}) ` : ''}${i}`}:</pre>
-            <Term term={hyp.term}/>
+        {goal.hypotheses.map((hyp, i) => {
+          const added = hypDiff !== undefined && hypDiff.changed[i] === undefined;
+          return (
+            <React.Fragment key={i}>
+              <GoalActions className="justify-self-end" term={stripAnsi(hyp.term)} hypothesis label={hyp.label} live={live} openOnClick>
+                <pre className={"term" + (added ? " diff-added" : "")}>{`${hyp.label ? `(${hyp.label}) ` : ''}${i}`}:</pre>
+              </GoalActions>
+              <GoalActions className="min-w-0" term={stripAnsi(hyp.term)} hypothesis label={hyp.label} live={live}>
+                <Term term={hyp.term} spans={hyp.spans} highlight={hypDiff?.changed[i]} className={added ? "diff-added" : undefined}/>
+              </GoalActions>
+            </React.Fragment>
+          );
+        })}
+        {hypDiff?.removed.map((hyp, i) => (
+          <React.Fragment key={`removed-${i}`}>
+            <pre className="justify-self-end term diff-removed">{`${hyp.label ? `(${hyp.label}) ` : ''}-`}:</pre>
+            <Term term={hyp.term} className="diff-removed"/>
           </React.Fragment>
         ))}
       </div>
-      <vscode-divider className={goal.hypotheses.length ? "mb-2" : "hidden"}/>
-      <Term term={goal.term}/>
+      <vscode-divider className={goal.hypotheses.length || hypDiff?.removed.length ? "mb-2" : "hidden"}/>
+      <GoalActions term={stripAnsi(goal.term)} live={live}>
+        <Term term={goal.term} spans={goal.spans} highlight={termDiff}/>
+      </GoalActions>
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { useFloating, useDismiss, useInteractions, offset, flip, shift, autoUpdate } from "@floating-ui/react";
+import { getVsCodeApi } from "../utils/vscode";
+import type { GoalActionKind, GoalviewMessage } from "../../../src/types";
+
+interface GoalActionsProps {
+  // The term of a hypothesis or a conclusion (without ANSI escape sequences)
+  term: string;
+  // True for hypotheses
+  hypothesis?: boolean;
+  label?: string;
+  // If true then the menu is also opened by a left click
+  openOnClick?: boolean;
+  // False if the goal is not the current goal state (e.g., a history entry is shown).
+  // Actions which modify the proof are not available in this case.
+  live?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+function getActions(term: string, live: boolean, hypothesis?: boolean, label?: string): [GoalActionKind, string][] {
+  const actions: [GoalActionKind, string][] = [];
+  if (live && hypothesis && label) {
+    actions.push(['use-then', `Insert USE_THEN "${label}"`]);
+  }
+  if (live && hypothesis && /^\s*(?:!|∀)/.test(term)) {
+    actions.push(['spec-then', 'Insert FIRST_X_ASSUM(MP_TAC o SPEC ...)']);
+  }
+  if (live && hypothesis && label) {
+    actions.push(['remove-then', `Execute REMOVE_THEN "${label}" MP_TAC`]);
+  }
+  actions.push(['insert-term', 'Insert the term'], ['copy-term', 'Copy the term']);
+  return actions;
+}
+
+/**
+ * A context menu with actions for a hypothesis or a conclusion.
+ */
+export function GoalActions({ term, hypothesis, label, openOnClick, live = true, className, children }: GoalActionsProps) {
+  const [open, setOpen] = React.useState(false);
+  // The text of the selected subterm (see the Term component)
+  const [subterm, setSubterm] = React.useState<string>();
+
+  const { refs, floatingStyles, context } = useFloating({
+    open,
+    onOpenChange: setOpen,
+    middleware: [offset(2), flip(), shift()],
+    whileElementsMounted: autoUpdate,
+    placement: 'bottom-start',
+  });
+  const dismiss = useDismiss(context);
+  const { getReferenceProps, getFloatingProps } = useInteractions([dismiss]);
+
+  const perform = (kind: GoalActionKind, text = term) => {
+    setOpen(false);
+    getVsCodeApi().postMessage({
+      command: 'goal-action',
+      data: { kind, label: label || undefined, term: text },
+    } satisfies GoalviewMessage<'goal-action'>);
+  };
+
+  return (
+    <>
+      <div
+        ref={refs.setReference}
+        className={(className ?? '') + (openOnClick ? ' cursor-pointer' : '')}
+        title={openOnClick ? 'Show actions' : undefined}
+        {...getReferenceProps({
+          onClick: openOnClick ? () => {
+            setSubterm(undefined);
+            setOpen(!open);
+          } : undefined,
+          onContextMenu: (e: React.MouseEvent) => {
+            e.preventDefault();
+            setSubterm((e.target as Element).closest('[data-subterm]')?.getAttribute('data-subterm') ?? undefined);
+            setOpen(true);
+          },
+        })}
+      >
+        {children}
+      </div>
+      {open && (
+        <div
+          ref={refs.setFloating}
+          style={floatingStyles}
+          className="action-menu"
+          {...getFloatingProps()}
+        >
+          {subterm !== undefined ?
+            <div className="action-menu-item" onClick={() => perform('copy-term', subterm)}>
+              Copy the subterm
+            </div> : null}
+          {getActions(term, live, hypothesis, label).map(([kind, title]) => (
+            <div key={kind} className="action-menu-item" onClick={() => perform(kind)}>
+              {title}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
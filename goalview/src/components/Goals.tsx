@@ -1,29 +1,125 @@
 import React from "react";
+import { VscChevronDown, VscChevronRight, VscTarget } from "react-icons/vsc";
 import { Goal } from "./Goal";
-import type { Goalstate } from "../../../src/types";
+import { stripAnsi } from "../utils/diff";
+import type { Goal as GoalType, Goalstate } from "../../../src/types";
 
-export function Goals({ goalstate }: { goalstate?: Goalstate }) {
+// Returns the goal of the previous state which corresponds to the i-th goal of the current state.
+// A tactic replaces the first goal with new subgoals and other goals are not changed.
+function getPreviousGoal(goalstate: Goalstate, previous: Goalstate, i: number): GoalType | undefined {
+  const newGoals = goalstate.goals.length - previous.goals.length + 1;
+  return previous.goals[i < newGoals ? 0 : i - newGoals + 1];
+}
+
+// Shows the same information as the prompt of the HOL Light client
+function GoalsHeader({ goalstate }: { goalstate: Goalstate }) {
+  const total = goalstate.goals.length;
+  return (
+    <div className="goals-header mt-2">
+      {`${goalstate.subgoals} subgoal${goalstate.subgoals === 1 ? '' : 's'} (${total} total), current: Goal 1`}
+    </div>
+  );
+}
+
+function FocusButton({ onClick }: { onClick: () => void }) {
+  return (
+    <VscTarget
+      className="w-5 h-5 action-icon shrink-0"
+      title="Focus this goal (rotate goals with r)"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+    />
+  );
+}
+
+interface GoalsProps {
+  goalstate?: Goalstate;
+  previous?: Goalstate;
+  // Show non-current goals collapsed
+  collapse?: boolean;
+  // False if a history entry is shown
+  live?: boolean;
+  // Makes the i-th goal current (undefined if goals cannot be focused)
+  onFocus?: (i: number) => void;
+}
+
+export function Goals({ goalstate, previous, collapse, live, onFocus }: GoalsProps) {
   const [selectedTab, setSelectedTab] = React.useState<number>(0);
+  const [expanded, setExpanded] = React.useState<Set<number>>(new Set());
   if (!goalstate) {
     return <div></div>;
   }
   if (!goalstate || !goalstate.goals.length) {
     return <div className='p-4'>No goals</div>;
   }
+  const focus = onFocus && ((i: number) => {
+    setSelectedTab(0);
+    setExpanded(new Set());
+    onFocus(i);
+  });
+  const previousGoal = (i: number) => previous && getPreviousGoal(goalstate, previous, i);
+
+  if (collapse) {
+    return (
+      <>
+        <GoalsHeader goalstate={goalstate}/>
+        {goalstate.goals.map((goal, i) => {
+          const isExpanded = i === 0 || expanded.has(i);
+          const toggle = () => {
+            const newExpanded = new Set(expanded);
+            if (!newExpanded.delete(i)) {
+              newExpanded.add(i);
+            }
+            setExpanded(newExpanded);
+          };
+          return (
+            <div key={i} className="goal-item mt-2">
+              <div
+                className={"flex flex-row gap-x-1 items-center" + (i ? " cursor-pointer" : "")}
+                onClick={i ? toggle : undefined}
+              >
+                {isExpanded
+                  ? <VscChevronDown className="w-4 h-4 shrink-0"/>
+                  : <VscChevronRight className="w-4 h-4 shrink-0"/>}
+                <span className="shrink-0">{`Goal ${i + 1}${i ? '' : ' (current)'}`}</span>
+                {!isExpanded ?
+                  <span className="term truncate goal-summary">{stripAnsi(goal.term).replace(/\s+/g, ' ')}</span> : null}
+                {i && focus ? <div className="ml-auto"><FocusButton onClick={() => focus(i)}/></div> : null}
+              </div>
+              {isExpanded ?
+                <div className="ml-5">
+                  <Goal goal={goal} previous={previousGoal(i)} live={live}/>
+                </div> : null}
+            </div>
+          );
+        })}
+      </>
+    );
+  }
+
   // console.log('Updated: ' + selectedTab);
   return (
-    <vscode-tabs 
-      selectedIndex={Math.min(goalstate.goals.length - 1, selectedTab)}
-      onvsc-tabs-select={(e) => setSelectedTab((e.currentTarget as { selectedIndex: number } | null)?.selectedIndex ?? 0)}
-    >
-      {goalstate.goals.map((goal, i) => (
-          <React.Fragment key={i}>
-            <vscode-tab-header slot="header">{`Goal ${i + 1}`}</vscode-tab-header>
-            <vscode-tab-panel>
-              <Goal goal={goal}/>
-            </vscode-tab-panel>
-          </React.Fragment>
-      ))}
-    </vscode-tabs>
+    <>
+      <GoalsHeader goalstate={goalstate}/>
+      <vscode-tabs
+        selectedIndex={Math.min(goalstate.goals.length - 1, selectedTab)}
+        onvsc-tabs-select={(e) => setSelectedTab((e.currentTarget as { selectedIndex: number } | null)?.selectedIndex ?? 0)}
+      >
+        {goalstate.goals.map((goal, i) => (
+            <React.Fragment key={i}>
+              <vscode-tab-header slot="header">{`Goal ${i + 1}`}</vscode-tab-header>
+              <vscode-tab-panel>
+                {i && focus ?
+                  <div className="flex flex-row mt-1">
+                    <div className="ml-auto"><FocusButton onClick={() => focus(i)}/></div>
+                  </div> : null}
+                <Goal goal={goal} previous={previousGoal(i)} live={live}/>
+              </vscode-tab-panel>
+            </React.Fragment>
+        ))}
+      </vscode-tabs>
+    </>
   );
-}
\ No newline at end of file
+}
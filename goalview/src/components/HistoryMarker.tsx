@@ -0,0 +1,18 @@
+import type { GoalHistoryInfo, SourceLocation } from "../../../src/types";
+
+export function HistoryMarker({ history, onReveal }: { history: GoalHistoryInfo, onReveal: (location: SourceLocation) => void }) {
+  const location = history.location;
+  return (
+    <div className="history-marker mt-2 p-1">
+      <span>{`Goal state ${history.index + 1} of ${history.length} (not live)`}</span>
+      {history.tactic !== undefined ?
+        <pre
+          className={"term tree-tactic" + (location ? " tree-link" : "")}
+          title={location ? "Reveal the command in the editor" : undefined}
+          onClick={() => location && onReveal(location)}
+        >
+          {history.tactic}
+        </pre> : null}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { VscCircleLarge, VscPass } from "react-icons/vsc";
+import { Goal } from "./Goal";
+import type { Goalstate, ProofTreeNode, SourceLocation } from "../../../src/types";
+
+interface NodeProps {
+  node: ProofTreeNode;
+  goalstate: Goalstate;
+  onReveal: (location: SourceLocation) => void;
+  live?: boolean;
+}
+
+function TreeNode({ node, goalstate, onReveal, live }: NodeProps) {
+  const goal = node.goalIndex !== undefined ? goalstate.goals[node.goalIndex] : undefined;
+  const icon = node.closed
+    ? <VscPass className="w-4 h-4 shrink-0 tree-closed"/>
+    : <VscCircleLarge className="w-4 h-4 shrink-0 tree-open"/>;
+  return (
+    <li>
+      <div className="flex flex-row gap-x-1 items-start">
+        {icon}
+        {node.tactic !== undefined ?
+          <pre
+            className={"term tree-tactic" + (node.location ? " tree-link" : "")}
+            title={node.location ? "Reveal the tactic in the editor" : undefined}
+            onClick={() => node.location && onReveal(node.location)}
+          >
+            {node.tactic}
+          </pre> :
+          <span className="term">{`Goal ${(node.goalIndex ?? 0) + 1}`}</span>}
+      </div>
+      {goal ?
+        <div className="ml-5">
+          <Goal goal={goal} live={live}/>
+        </div> : null}
+      {node.children.length ?
+        <ul className="ml-4 tree-children">
+          {node.children.map((child, i) => (
+            <TreeNode key={i} node={child} goalstate={goalstate} onReveal={onReveal} live={live}/>
+          ))}
+        </ul> : null}
+    </li>
+  );
+}
+
+export function ProofTree({ tree, goalstate, onReveal, live }: { tree?: ProofTreeNode, goalstate?: Goalstate, onReveal: (location: SourceLocation) => void, live?: boolean }) {
+  if (!goalstate) {
+    return <div></div>;
+  }
+  if (!tree) {
+    return <div className='p-4'>No proof tree</div>;
+  }
+  return (
+    <ul className="mt-2 mb-2">
+      <TreeNode node={tree} goalstate={goalstate} onReveal={onReveal} live={live}/>
+    </ul>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import colors from './ansi-colors.module.css';
 import HoverText from '../components/HoverText';
+import type { TextRange } from './diff';
 
 export function escapeHtml(str: string) {
   return str
@@ -52,7 +53,14 @@ const ansiToCss: Record<string, string> = {
 
 const colorClasses = new Set(Object.values(colors));
 
-export function ansiToReact(input: string, wordPattern?: RegExp): React.ReactNode[] {
+/**
+ * Converts a text with ANSI escape sequences into React nodes.
+ * Each piece of text has the data-start attribute with its position in the plain text.
+ * @param wordPattern words matching this pattern show hover messages
+ * @param highlight ranges of the plain text (without escape sequences) which are highlighted
+ * @param subterm the range of the plain text of the selected subterm
+ */
+export function ansiToReact(input: string, wordPattern?: RegExp, highlight?: TextRange[], subterm?: TextRange): React.ReactNode[] {
   const fullWordPattern = new RegExp(`^${wordPattern?.source}$`, wordPattern?.flags);
   // eslint-disable-next-line no-control-regex
   const regex = /\x1b\[(\d+(;\d+)*)m/g; 
@@ -61,11 +69,21 @@ export function ansiToReact(input: string, wordPattern?: RegExp): React.ReactNod
   let lastIndex = 0;
   let match;
   let activeClasses: string[] = [];
+  // The position in the plain text
+  let plainIndex = 0;
+  const ranges = highlight ?? [];
+  const boundaries = [...ranges.flat(), ...(subterm ?? [])];
 
-  const addSpan = (start: number, end: number) => {
-    const text = input.slice(start, end);
+  const addTextSpan = (text: string, start: number) => {
+    const classes = [...activeClasses];
+    if (ranges.some(([a, b]) => a <= start && start < b)) {
+      classes.push("diff-changed");
+    }
+    if (subterm && subterm[0] <= start && start < subterm[1]) {
+      classes.push("subterm-selected");
+    }
     result.push(
-      <span key={result.length} className={activeClasses.join(" ")}>
+      <span key={result.length} className={classes.join(" ")} data-start={start}>
         {!wordPattern ? text : text.split(wordPattern).map((s, i) => 
           fullWordPattern.test(s) ? <HoverText key={`${i}-${s}`} text={s}/> : s
         )}
@@ -73,6 +91,24 @@ export function ansiToReact(input: string, wordPattern?: RegExp): React.ReactNod
     );
   };
 
+  const addSpan = (start: number, end: number) => {
+    const text = input.slice(start, end);
+    const textStart = plainIndex;
+    plainIndex += text.length;
+    // Split the text at boundaries of highlighted ranges
+    const cuts = boundaries
+      .map(x => x - textStart)
+      .filter(x => x > 0 && x < text.length)
+      .sort((a, b) => a - b);
+    let pos = 0;
+    for (const cut of [...cuts, text.length]) {
+      if (cut > pos) {
+        addTextSpan(text.slice(pos, cut), textStart + pos);
+        pos = cut;
+      }
+    }
+  };
+
   while ((match = regex.exec(input)) !== null) {
     if (match.index > lastIndex) {
       addSpan(lastIndex, match.index);
@@ -0,0 +1,106 @@
+import type { Goal, Hypothesis } from "../../../src/types";
+
+// A range of characters in a plain text (without ANSI escape sequences)
+export type TextRange = [number, number];
+
+// The maximum size of the dynamic programming table for computing differences
+const MAX_DIFF_SIZE = 4_000_000;
+
+// eslint-disable-next-line no-control-regex
+const ansiRe = /\x1b\[[\d;]*m/g;
+
+export function stripAnsi(text: string): string {
+    return text.replace(ansiRe, '');
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/[a-z_][\w']*|\d+|\s+|[^\w\s]+/gi) ?? [];
+}
+
+/**
+ * Returns ranges of tokens of the new text which are not present in the old text
+ * (a token-level difference based on the longest common subsequence).
+ * Both texts should not contain ANSI escape sequences.
+ */
+export function changedRanges(oldText: string, newText: string): TextRange[] {
+    if (oldText === newText) {
+        return [];
+    }
+    const a = tokenize(oldText);
+    const b = tokenize(newText);
+    const n = a.length, m = b.length;
+    if ((n + 1) * (m + 1) > MAX_DIFF_SIZE) {
+        return [[0, newText.length]];
+    }
+    // lcs[i * (m + 1) + j] is the length of the longest common subsequence of a[i:] and b[j:]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = a[i] === b[j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+    const ranges: TextRange[] = [];
+    let i = 0, j = 0, pos = 0;
+    const addRange = (token: string) => {
+        if (!/^\s+$/.test(token)) {
+            const last = ranges[ranges.length - 1];
+            if (last && last[1] === pos) {
+                last[1] = pos + token.length;
+            } else {
+                ranges.push([pos, pos + token.length]);
+            }
+        }
+    };
+    while (j < m) {
+        if (i < n && a[i] === b[j]) {
+            i++;
+        } else if (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+            i++;
+            continue;
+        } else {
+            addRange(b[j]);
+        }
+        pos += b[j].length;
+        j++;
+    }
+    return ranges;
+}
+
+export interface HypothesisDiff {
+    // Ranges of changed tokens for each hypothesis (undefined for new hypotheses)
+    changed: (TextRange[] | undefined)[];
+    // Hypotheses which are not present in the new goal
+    removed: Hypothesis[];
+}
+
+/**
+ * Compares hypotheses of two goals. Hypotheses are matched by their labels and terms.
+ * If a hypothesis with the same label has a different term then changed tokens are computed.
+ */
+export function diffHypotheses(oldGoal: Goal, newGoal: Goal): HypothesisDiff {
+    const key = (hyp: Hypothesis) => hyp.label + '\n' + stripAnsi(hyp.term);
+    const unmatched = new Set(oldGoal.hypotheses);
+    const findOld = (pred: (hyp: Hypothesis) => boolean) => [...unmatched].find(pred);
+
+    const matches = newGoal.hypotheses.map(hyp => {
+        const old = findOld(old => key(old) === key(hyp));
+        if (old) {
+            unmatched.delete(old);
+        }
+        return old;
+    });
+    const changed = newGoal.hypotheses.map((hyp, i) => {
+        if (matches[i]) {
+            return [];
+        }
+        const old = hyp.label ? findOld(old => old.label === hyp.label) : undefined;
+        if (!old) {
+            return undefined;
+        }
+        unmatched.delete(old);
+        return changedRanges(stripAnsi(old.term), stripAnsi(hyp.term));
+    });
+    return { changed, removed: [...unmatched] };
+}
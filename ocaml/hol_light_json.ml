@@ -113,11 +113,141 @@ let write_term ~color ?max_boxes ?margin ob t =
   let _, s = write_to_string ?max_boxes ?margin writer t in
   Json.write_string ob s;;
 
+(* Structured terms: spans of subterms in the printed text.
+   A temporary user printer emits a zero-width marker before each subterm which is
+   printed by the HOL Light printer. The end of a span is found by comparing
+   the text (without whitespace) after the marker with the subterm printed separately.
+   Subterms which cannot be matched do not get spans. *)
+
+let max_spans = 2000;;
+
+let is_space c = c = ' ' || c = '\n' || c = '\t' || c = '\r';;
+
+let compact_string s =
+  let b = Buffer.create (String.length s) in
+  String.iter (fun c -> if not (is_space c) then Buffer.add_char b c) s;
+  Buffer.contents b;;
+
+let matches_at s i sub =
+  i >= 0 && i + String.length sub <= String.length s && String.sub s i (String.length sub) = sub;;
+
+let print_term_with_markers ~color ?max_boxes ?margin tm =
+  let subterms = ref [] and count = ref 0 in
+  let marker fmt t =
+    if !count < max_spans then begin
+      subterms := t :: !subterms;
+      Format.pp_print_as fmt 0 ("\001" ^ string_of_int !count ^ "\002");
+      incr count
+    end;
+    failwith "marker" in
+  let writer = if color then pp_print_colored_term else pp_print_term in
+  let saved = !user_printers in
+  user_printers := ("hol_light_json_marker", marker) :: saved;
+  let _, s =
+    try write_to_string ?max_boxes ?margin writer tm
+    with exn -> user_printers := saved; raise exn in
+  user_printers := saved;
+  s, Array.of_list (List.rev !subterms);;
+
+(* Removes markers from the printed text. Returns the text, positions of markers in
+   the compact text (without whitespace and ANSI escape sequences), the compact text, and
+   positions of compact text bytes in the plain text (counted in Unicode characters). *)
+let remove_markers s n =
+  let len = String.length s in
+  let ob = Buffer.create len and compact = Buffer.create len in
+  let starts = Array.make n (-1) and positions = ref [] in
+  let plain = ref 0 and i = ref 0 in
+  while !i < len do
+    let c = s.[!i] in
+    if c = '\001' then begin
+      let j = String.index_from s !i '\002' in
+      starts.(int_of_string (String.sub s (!i + 1) (j - !i - 1))) <- Buffer.length compact;
+      i := j + 1
+    end else if c = '\027' then begin
+      let j = try String.index_from s !i 'm' with Not_found -> len - 1 in
+      Buffer.add_substring ob s !i (j - !i + 1);
+      i := j + 1
+    end else begin
+      let continuation = Char.code c land 0xC0 = 0x80 in
+      Buffer.add_char ob c;
+      if not (is_space c) then begin
+        Buffer.add_char compact c;
+        positions := (if continuation then !plain - 1 else !plain) :: !positions
+      end;
+      if not continuation then incr plain;
+      incr i
+    end
+  done;
+  Buffer.contents ob, starts, Buffer.contents compact, Array.of_list (List.rev !positions);;
+
+let term_spans ~color ?max_boxes ?margin tm =
+  let s, subterms = print_term_with_markers ~color ?max_boxes ?margin tm in
+  let text, starts, compact, positions = remove_markers s (Array.length subterms) in
+  let print_plain = write_to_string ?max_boxes pp_print_term in
+  let span i t =
+    let cs = starts.(i) in
+    if cs < 0 then None else
+    let sub = compact_string (snd (print_plain t)) in
+    let n = String.length sub in
+    let range =
+      if n = 0 then None
+      else if matches_at compact cs sub then Some (cs, cs + n)
+      (* Brackets are not included in spans *)
+      else if matches_at compact cs ("(" ^ sub ^ ")") then Some (cs + 1, cs + 1 + n)
+      else None in
+    match range with
+    | Some (a, b) -> Some (positions.(a), positions.(b - 1) + 1, t)
+    | None -> None in
+  let spans = List.filter_map (fun x -> x) (Array.to_list (Array.mapi span subterms)) in
+  text, spans;;
+
+let write_span ob is_bound ((start, stop, tm) as span) =
+  Buffer.add_string ob "{\"start\":";
+  Json.write_int ob start;
+  Buffer.add_string ob ",\"end\":";
+  Json.write_int ob stop;
+  Buffer.add_string ob ",\"type\":";
+  Json.write_string ob (string_of_type (type_of tm));
+  Buffer.add_string ob ",\"kind\":";
+  if is_var tm then begin
+    Json.write_string ob "var";
+    Buffer.add_string ob ",\"name\":";
+    Json.write_string ob (fst (dest_var tm));
+    Buffer.add_string ob ",\"bound\":";
+    Json.write_bool ob (is_bound span)
+  end else if is_const tm then begin
+    Json.write_string ob "const";
+    Buffer.add_string ob ",\"name\":";
+    Json.write_string ob (fst (dest_const tm))
+  end else
+    Json.write_string ob (if is_abs tm then "abs" else "comb");
+  Buffer.add_char ob '}';;
+
+(* Writes the "term" field and (optionally) the "spans" field *)
+let write_term_fields ~color ~spans ?max_boxes ?margin ob tm =
+  Buffer.add_string ob "\"term\":";
+  if not spans then write_term ~color ?max_boxes ?margin ob tm
+  else begin
+    let text, span_list = term_spans ~color ?max_boxes ?margin tm in
+    let free_vars = frees tm in
+    (* A variable occurrence is bound if it is inside a subterm where this variable is not free.
+       The span of a binder (e.g., `!x. P x`) contains all occurrences bound by this binder,
+       so a bound variable which shadows a free variable with the same name is bound. *)
+    let is_bound (start, stop, v) =
+      not (List.mem v free_vars) ||
+      List.exists (fun (s, e, t) -> s <= start && stop <= e && not (vfree_in v t)) span_list in
+    Json.write_string ob text;
+    Buffer.add_string ob ",\"spans\":";
+    write_list ob (fun ob -> write_span ob is_bound) span_list
+  end;;
+
 type goal_options = {
     color: bool;
     max_boxes: int;
     max_hyp_boxes: int;
     margin: int;
+    (* Include spans of subterms *)
+    spans: bool;
 };;
 
 let goal_default_options = {
@@ -125,6 +255,7 @@ let goal_default_options = {
   max_boxes = 0;
   max_hyp_boxes = 0;
   margin = 0;
+  spans = false;
 };;
 
 let write_goal ~options ob =
@@ -133,9 +264,9 @@ let write_goal ~options ob =
     Buffer.add_string ob "\"label\":";
     Json.write_string ob label;
     Buffer.add_char ob ',';
-    Buffer.add_string ob "\"term\":";
-    write_term 
+    write_term_fields
       ~color:options.color
+      ~spans:options.spans
       ~max_boxes:options.max_hyp_boxes
       ~margin:options.margin
       ob (concl hyp);
@@ -147,11 +278,11 @@ let write_goal ~options ob =
     Buffer.add_string ob "\"hypotheses\":";
     write_list ob write_hyp (List.rev hyps);
     Buffer.add_char ob ',';
-    Buffer.add_string ob "\"term\":";
-    write_term 
+    write_term_fields
       ~color:options.color
+      ~spans:options.spans
       ~max_boxes:options.max_boxes
-      ~margin:options.margin 
+      ~margin:options.margin
       ob tm;
     Buffer.add_char ob '}';;
 
@@ -178,4 +309,26 @@ let write_top_goalstate ~options ob =
 let json_of_top_goalstate ~options =
   let ob = Buffer.create 1024 in
   write_top_goalstate ~options ob;
-  Buffer.contents ob;;
\ No newline at end of file
+  Buffer.contents ob;;
+
+(* Transitions between consecutive states of the current goalstack (starting from the oldest state).
+   For each state, the i-th element of the result is the index of the i-th goal
+   in the previous state or -1 if the goal is new. Goals are compared structurally. *)
+let goalstack_transitions () =
+  let sources prev gl =
+    let used = Array.make (List.length prev) false in
+    let find g =
+      let rec find i = function
+        | [] -> -1
+        | h :: t -> if not used.(i) && h = g then (used.(i) <- true; i) else find (i + 1) t in
+      find 0 prev in
+    List.map find gl in
+  let rec transitions prev = function
+    | [] -> []
+    | (_, gl, _) :: rest -> sources prev gl :: transitions gl rest in
+  transitions [] (List.rev !current_goalstack);;
+
+let json_of_goalstack_transitions () =
+  let ob = Buffer.create 256 in
+  write_list ob (fun ob l -> write_list ob Json.write_int l) (goalstack_transitions ());
+  Buffer.contents ob;;
@@ -1,10 +1,14 @@
 exception Timeout
 exception Sigpipe
+exception Authentication_failed
 
 let debug_flag = ref true
 
 let () = Sys.set_signal Sys.sigpipe (Sys.Signal_handle (fun _ -> raise Sigpipe))
-let () = Sys.set_signal Sys.sigalrm (Sys.Signal_handle (fun _ -> raise Timeout))
+(* The toplevel catches all exceptions so this flag is required to detect timeouts *)
+let timed_out = ref false
+
+let () = Sys.set_signal Sys.sigalrm (Sys.Signal_handle (fun _ -> timed_out := true; raise Timeout))
 
 let rec restart_on_EINTR f x =
   try f x with Unix.Unix_error (Unix.EINTR, _, _) -> restart_on_EINTR f x
@@ -21,6 +25,15 @@ let write_to_string writer =
 
 let ($) f x = f x
 
+(* Compares strings in time which does not depend on the position of the first mismatch *)
+let secure_equal s1 s2 =
+  let n = String.length s1 in
+  let diff = ref (n lxor String.length s2) in
+  String.iteri (fun i c ->
+    let c2 = if i < String.length s2 then s2.[i] else '\000' in
+    diff := !diff lor (Char.code c lxor Char.code c2)) s1;
+  !diff = 0
+
 let with_close fd f =
   Fun.protect ~finally:(fun () -> Unix.close fd) (fun () -> f fd)
 
@@ -81,8 +94,267 @@ let restore redirected =
     Unix.dup2 descr redirected.old_descr;
     Unix.close descr
 
+(* The version of the JSON-lines protocol. It should be equal to PROTOCOL_VERSION in hol-client.ts *)
+let protocol_version = 1
+
+(* A minimal JSON implementation for the client-server protocol *)
+module Json = struct
+  type t =
+    | Null
+    | Bool of bool
+    | Int of int
+    | Float of float
+    | String of string
+    | List of t list
+    | Assoc of (string * t) list
+
+  exception Parse_error of string
+
+  let write_string buf s =
+    Buffer.add_char buf '"';
+    String.iter (function
+      | '"' -> Buffer.add_string buf "\\\""
+      | '\\' -> Buffer.add_string buf "\\\\"
+      | '\n' -> Buffer.add_string buf "\\n"
+      | '\r' -> Buffer.add_string buf "\\r"
+      | '\t' -> Buffer.add_string buf "\\t"
+      | '\x00'..'\x1F' | '\x7F' as c -> Buffer.add_string buf (Printf.sprintf "\\u%04x" (Char.code c))
+      | c -> Buffer.add_char buf c) s;
+    Buffer.add_char buf '"'
+
+  let rec write buf = function
+    | Null -> Buffer.add_string buf "null"
+    | Bool b -> Buffer.add_string buf (string_of_bool b)
+    | Int n -> Buffer.add_string buf (string_of_int n)
+    | Float x -> Buffer.add_string buf (if Float.is_finite x then Printf.sprintf "%.6f" x else "null")
+    | String s -> write_string buf s
+    | List xs ->
+      Buffer.add_char buf '[';
+      List.iteri (fun i x -> if i > 0 then Buffer.add_char buf ','; write buf x) xs;
+      Buffer.add_char buf ']'
+    | Assoc kvs ->
+      Buffer.add_char buf '{';
+      List.iteri (fun i (k, v) ->
+        if i > 0 then Buffer.add_char buf ',';
+        write_string buf k;
+        Buffer.add_char buf ':';
+        write buf v) kvs;
+      Buffer.add_char buf '}'
+
+  let to_string v =
+    let buf = Buffer.create 256 in
+    write buf v;
+    Buffer.contents buf
+
+  let of_string s =
+    let n = String.length s in
+    let pos = ref 0 in
+    let error msg = raise (Parse_error (Printf.sprintf "%s at position %d" msg !pos)) in
+    let peek () = if !pos < n then s.[!pos] else '\000' in
+    let rec skip_ws () =
+      match peek () with
+      | ' ' | '\t' | '\n' | '\r' -> incr pos; skip_ws ()
+      | _ -> () in
+    let expect c =
+      if !pos < n && s.[!pos] = c then incr pos
+      else error (Printf.sprintf "'%c' expected" c) in
+    let literal word v =
+      let k = String.length word in
+      if !pos + k <= n && String.sub s !pos k = word then (pos := !pos + k; v)
+      else error "Unexpected literal" in
+    let hex4 () =
+      if !pos + 4 > n then error "Bad unicode escape";
+      let code =
+        try int_of_string ("0x" ^ String.sub s !pos 4)
+        with Failure _ -> error "Bad unicode escape" in
+      pos := !pos + 4;
+      code in
+    let parse_string () =
+      expect '"';
+      let buf = Buffer.create 16 in
+      let rec loop () =
+        if !pos >= n then error "Unterminated string";
+        let c = s.[!pos] in
+        incr pos;
+        match c with
+        | '"' -> Buffer.contents buf
+        | '\\' ->
+          if !pos >= n then error "Unterminated string";
+          let e = s.[!pos] in
+          incr pos;
+          begin match e with
+          | 'n' -> Buffer.add_char buf '\n'
+          | 't' -> Buffer.add_char buf '\t'
+          | 'r' -> Buffer.add_char buf '\r'
+          | 'b' -> Buffer.add_char buf '\b'
+          | 'f' -> Buffer.add_char buf '\012'
+          | '"' | '\\' | '/' -> Buffer.add_char buf e
+          | 'u' ->
+            let code = hex4 () in
+            let code =
+              if code >= 0xD800 && code <= 0xDBFF && !pos + 2 <= n && String.sub s !pos 2 = "\\u" then begin
+                pos := !pos + 2;
+                let low = hex4 () in
+                0x10000 + ((code - 0xD800) lsl 10) + (low - 0xDC00)
+              end else code in
+            Buffer.add_utf_8_uchar buf (if Uchar.is_valid code then Uchar.of_int code else Uchar.rep)
+          | _ -> error "Bad escape sequence"
+          end;
+          loop ()
+        | c -> Buffer.add_char buf c; loop ()
+      in
+      loop () in
+    let rec parse_value () =
+      skip_ws ();
+      match peek () with
+      | '"' -> String (parse_string ())
+      | '{' ->
+        incr pos;
+        skip_ws ();
+        if peek () = '}' then (incr pos; Assoc []) else
+        let rec fields acc =
+          skip_ws ();
+          let k = parse_string () in
+          skip_ws ();
+          expect ':';
+          let v = parse_value () in
+          skip_ws ();
+          match peek () with
+          | ',' -> incr pos; fields ((k, v) :: acc)
+          | '}' -> incr pos; Assoc (List.rev ((k, v) :: acc))
+          | _ -> error "',' or '}' expected" in
+        fields []
+      | '[' ->
+        incr pos;
+        skip_ws ();
+        if peek () = ']' then (incr pos; List []) else
+        let rec items acc =
+          let v = parse_value () in
+          skip_ws ();
+          match peek () with
+          | ',' -> incr pos; items (v :: acc)
+          | ']' -> incr pos; List (List.rev (v :: acc))
+          | _ -> error "',' or ']' expected" in
+        items []
+      | 't' -> literal "true" (Bool true)
+      | 'f' -> literal "false" (Bool false)
+      | 'n' -> literal "null" Null
+      | '-' | '0'..'9' ->
+        let start = !pos in
+        incr pos;
+        while !pos < n && s.[!pos] >= '0' && s.[!pos] <= '9' do incr pos done;
+        begin try Int (int_of_string (String.sub s start (!pos - start)))
+        with Failure _ -> error "Bad number" end
+      | _ -> error "Unexpected character" in
+    let v = parse_value () in
+    skip_ws ();
+    if !pos < n then error "Unexpected data";
+    v
+
+  let member key = function
+    | Assoc kvs -> Option.value ~default:Null (List.assoc_opt key kvs)
+    | _ -> Null
+end
+
+(* Requests of the JSON-lines protocol *)
+type request =
+  | Eval of Json.t * string * (string * string) list
+  (* Queries are read-only silent requests which are evaluated between Eval requests.
+     Queries with the "concurrent" argument may be evaluated during an Eval request. *)
+  | Query of Json.t * string * (string * string) list
+  | Cancel of Json.t
+  | Interrupt
+
+let parse_request line =
+  let msg = Json.of_string line in
+  let parse_eval_data data =
+    let input = match Json.member "input" data with
+      | Json.String s -> s
+      | _ -> raise (Json.Parse_error "No input") in
+    (* Arguments have the same meaning as arguments in the $...$ prefix of the legacy protocol *)
+    let args = match Json.member "args" data with
+      | Json.Assoc kvs -> kvs |> List.filter_map (function
+        | k, Json.String s -> Some (k, s)
+        | k, Json.Int n -> Some (k, string_of_int n)
+        | k, Json.Bool true -> Some (k, "")
+        | _ -> None)
+      | _ -> [] in
+    String.trim input, args in
+  let id = Json.member "id" msg in
+  match Json.member "type" msg with
+  | Json.String "eval" ->
+    let input, args = parse_eval_data (Json.member "data" msg) in
+    Eval (id, input, args)
+  | Json.String "query" ->
+    let input, args = parse_eval_data (Json.member "data" msg) in
+    Query (id, input, args)
+  | Json.String "cancel" -> Cancel id
+  | Json.String "interrupt" -> Interrupt
+  | _ -> raise (Json.Parse_error "Unknown request type")
+
+(* Every message of the JSON-lines protocol is an object with the command id, the channel
+   ("main" or "query"), the message type, and data *)
+let output_message ?(flush_output = false) ?(channel = "main") oc id msg_type data =
+  output_string oc (Json.to_string (Json.Assoc [
+    "id", id;
+    "channel", Json.String channel;
+    "type", Json.String msg_type;
+    "data", data;
+  ]));
+  output_char oc '\n';
+  if flush_output then flush oc
+
+(* Unlike input_line, this line reader does not hide buffered data from Unix.select:
+   Several requests could be received at once *)
+type line_reader = {
+  fd : Unix.file_descr;
+  buf : Buffer.t;
+  chunk : Bytes.t;
+}
+
+let create_line_reader fd = {
+  fd;
+  buf = Buffer.create 1024;
+  chunk = Bytes.create 4096;
+}
+
+(* Returns the next complete line in the buffer *)
+let next_line reader =
+  let s = Buffer.contents reader.buf in
+  match String.index_opt s '\n' with
+  | None -> None
+  | Some i ->
+    Buffer.clear reader.buf;
+    Buffer.add_substring reader.buf s (i + 1) (String.length s - i - 1);
+    Some (String.sub s 0 i)
+
+(* Reads available data. Raises End_of_file if the connection is closed *)
+let fill reader =
+  let n = restart_on_EINTR (Unix.read reader.fd reader.chunk 0) (Bytes.length reader.chunk) in
+  if n = 0 then raise End_of_file;
+  Buffer.add_subbytes reader.buf reader.chunk 0 n
+
+(* Evaluates f () and raises Timeout after the given number of seconds *)
+let with_timeout timeout f =
+  timed_out := false;
+  match timeout with
+  | None -> f ()
+  | Some t ->
+    let set_timer t =
+      ignore (Unix.setitimer Unix.ITIMER_REAL { Unix.it_interval = 0.; Unix.it_value = t }) in
+    set_timer t;
+    Fun.protect ~finally:(fun () -> set_timer 0.) f
+
+let message_type_of_status = function
+  | `Ok -> "result"
+  | `Error -> "error"
+  | `Timeout -> "timeout"
+
 let eval_result = ref ""
 
+(* The maximum evaluation time of a concurrent query (in seconds) *)
+let concurrent_query_timeout = 10.
+
 let toploop_eval ?(silent=false) ?(string=false) input =
   let eval () = 
     if string then
@@ -118,54 +390,109 @@ let toploop_eval ?(silent=false) ?(string=false) input =
       ~finally:(fun () -> Toploop.parse_use_file := parse) 
       eval
 
-(* Returns (# total subgoals, # subgoals). Does what print_goalstate of HOL Light does *)
+(* Structured information about an evaluation error *)
+type error_info = {
+  file : string option;
+  (* Start line, start character, end line, end character (lines are 1-based) *)
+  range : (int * int * int * int) option;
+  (* "parse", "type", "failure", or "exception" *)
+  kind : string;
+  message : string;
+}
+
+(* Extracts the location and the message of the first error reported by the toplevel *)
+let parse_error_info output =
+  let lines = String.split_on_char '\n' output in
+  let try_scan line fmt f = try Some (Scanf.sscanf line fmt f) with _ -> None in
+  let parse_location line =
+    let with_file file l1 l2 c1 c2 = Some file, Some (l1, c1, l2, c2) in
+    let without_file l1 l2 c1 c2 = None, Some (l1, c1, l2, c2) in
+    List.find_map Fun.id [
+      try_scan line "File %S, line %d, characters %d-%d" (fun f l c1 c2 -> with_file f l l c1 c2);
+      try_scan line "File %S, lines %d-%d, characters %d-%d" with_file;
+      try_scan line "Line %d, characters %d-%d" (fun l c1 c2 -> without_file l l c1 c2);
+      try_scan line "Lines %d-%d, characters %d-%d" without_file;
+    ] in
+  let rest_text lines = String.trim (String.concat "\n" lines) in
+  let drop_prefix prefix s = String.sub s (String.length prefix) (String.length s - String.length prefix) in
+  let parse_prefixes = ["Syntax error"; "Illegal character"; "String literal not terminated"; "Comment not terminated"] in
+  let rec find_error loc = function
+    | [] -> None
+    | line :: rest when String.starts_with ~prefix:"Error: " line ->
+      let text = rest_text (drop_prefix "Error: " line :: rest) in
+      let kind = if List.exists (fun prefix -> String.starts_with ~prefix text) parse_prefixes then "parse" else "type" in
+      Some (loc, kind, text)
+    | line :: rest when String.starts_with ~prefix:"Exception: " line ->
+      let text = drop_prefix "Exception: " line in
+      begin match try_scan text "Failure %S" Fun.id with
+      | Some msg -> Some (loc, "failure", msg)
+      | None -> Some (loc, "exception", rest_text (text :: rest))
+      end
+    | line :: rest when String.starts_with ~prefix:"Warning" line ->
+      (* Locations of warnings are not locations of errors *)
+      find_error (None, None) rest
+    | line :: rest ->
+      find_error (Option.value (parse_location line) ~default:loc) rest
+  in
+  find_error (None, None) lines
+  |> Option.map (fun ((file, range), kind, message) -> { file; range; kind; message })
+
+let json_of_error_info info =
+  let option f = Option.fold ~none:Json.Null ~some:f in
+  Json.Assoc [
+    "file", option (fun f -> Json.String f) info.file;
+    "range", option (fun (l1, c1, l2, c2) -> Json.List (List.map (fun n -> Json.Int n) [l1; c1; l2; c2])) info.range;
+    "kind", Json.String info.kind;
+    "message", Json.String info.message;
+  ]
+
+(* Returns Some (# subgoals, # total subgoals). Does what print_goalstate of HOL Light does *)
 let hol_get_num_subgoals () =
   match !current_goalstack with
-  | [] -> ""
+  | [] -> None
   | (_,gl,_)::[] ->
-    if List.length gl = 0 then ""
-    else Format.sprintf "1,%d" (List.length gl)
+    if List.length gl = 0 then None
+    else Some (1, List.length gl)
   | (_,gl,_)::(_,glprev,_)::_ ->
-    if List.length gl = 0 then ""
+    if List.length gl = 0 then None
     else
       let p = length gl - length glprev in
       let p' = if p < 1 then 1 else p + 1 in
-      Format.sprintf "%d,%d" p' (List.length gl)
+      Some (p', List.length gl)
 
-let monitor_thread socket_ic socket_oc (labelled_fdins : (Unix.file_descr * string) list) =
-  ignore (Thread.sigmask Unix.SIG_BLOCK [Sys.sigint]);
+let string_of_subgoals = function
+  | None -> ""
+  | Some (p, n) -> Format.sprintf "%d,%d" p n
+
+(* Processes client requests and the output of evaluated code while the main thread is busy *)
+let monitor_thread ~on_request ~on_output reader (labelled_fdins : (Unix.file_descr * string) list) =
+  ignore (Thread.sigmask Unix.SIG_BLOCK [Sys.sigint; Sys.sigalrm]);
   let bytes_size = 16 * 1024 in
   let bytes = Bytes.create bytes_size in
-  (* It is not a very good idea to use a buffered input for the socket:
-     We rely on the fact that the client is well-behaved and always sends
-     newline-terminated strings *)
-  let socket_fd = Unix.descr_of_in_channel socket_ic in
-  let fdins = socket_fd :: List.map fst labelled_fdins in
+  let fdins = reader.fd :: List.map fst labelled_fdins in
+  let rec process_requests () =
+    match next_line reader with
+    | None -> ()
+    | Some line -> on_request line; process_requests ()
+  in
   let process fd =
     match List.assoc_opt fd labelled_fdins with
-    | None -> begin
+    | None ->
       (* Socket *)
-      (* TODO: replace socket_ic with fdin: input_line could block *)
-      let line = input_line socket_ic in
-      match line with
-      | "$interrupt" -> Unix.kill (Unix.getpid ()) Sys.sigint
-      | _ -> if !debug_flag then Format.eprintf "[THREAD] Unexpected command: %s@." line
-    end
+      fill reader;
+      process_requests ()
     | Some label ->
       let n = Unix.read fd bytes 0 bytes_size in
       if label = "control" then
         raise End_of_file
-      else begin
+      else
         (* If the client closes the connection then SIGPIPE signal will be generated *)
         (* TODO: these operations are potentially blocking *)
-        output_string socket_oc label;
-        output_char socket_oc ':';
-        output_bytes socket_oc (Bytes.escaped (Bytes.sub bytes 0 n));
-        output_char socket_oc '\n';
-        flush socket_oc
-      end
+        on_output label (Bytes.sub_string bytes 0 n)
   in
   try
+    (* Requests received together with the evaluated input are already buffered *)
+    process_requests ();
     while true do
       let rs, _, _ = Unix.select fdins [] [] (-1.) in
       List.iter process rs
@@ -174,7 +501,7 @@ let monitor_thread socket_ic socket_oc (labelled_fdins : (Unix.file_descr * stri
   | End_of_file -> (* prerr_endline "[THREAD] End_of_file: thread stopped" *) ()
   | exn -> Format.eprintf "[THREAD] Exception: %s@." $ Printexc.to_string exn; raise exn
 
-let rec mt_service (ic, oc) =
+let rec mt_service ?token (ic, oc) =
   Format.printf "[START] Connection open@.";
 
   with_pipe $ fun fdin_stdout fdout_stdout ->
@@ -185,6 +512,16 @@ let rec mt_service (ic, oc) =
   let new_stderr = create_redirected_descr fdout_stderr in
   let labelled_fdins = [fdin_stdout, "stdout"; fdin_stderr, "stderr"; fdin_ctrl, "control"] in
   let bytes = Bytes.create 1024 in
+  let reader = create_line_reader (Unix.descr_of_in_channel ic) in
+
+  (* The legacy protocol is used until the client requests the JSON-lines protocol *)
+  let json_mode = ref false in
+  (* The id of the last command received with the JSON-lines protocol *)
+  let last_id = ref Json.Null in
+  (* Queries which are evaluated before the next main channel request *)
+  let queries = ref [] in
+  (* Main channel requests received while a query is evaluated *)
+  let pending_requests = ref [] in
 
   let send_string ?(flush_output = false) prefix string =
     output_string oc prefix;
@@ -193,24 +530,44 @@ let rec mt_service (ic, oc) =
     if flush_output then flush oc 
   in
 
-  let rec get_input ic =
-    let input_fds = List.map Unix.descr_of_in_channel [ic; stdin] in
-    let ready, _, _ = Unix.select input_fds [] [] (-1.) in
-    match ready with
-    | fd :: _ when fd = List.hd input_fds ->
-      input_line ic
-    | fd :: _ -> begin
-      let cmd = input_line stdin in
-      match cmd with
-      | "stop" ->
-        Format.printf "[STOP] Stop requested@.";
-        raise End_of_file
-      | _ -> begin
-        Format.eprintf "[WARN] Unknown command: %s@." cmd;
-        get_input ic
+  let send_output id label data =
+    if !json_mode then
+      output_message ~flush_output:true oc id label (Json.String data)
+    else
+      send_string ~flush_output:true (label ^ ":") data
+  in
+
+  let send_ready () =
+    let subgoals = hol_get_num_subgoals () in
+    match !json_mode, subgoals with
+    | true, None ->
+      output_message ~flush_output:true oc !last_id "ready" (Json.Assoc [])
+    | true, Some (p, n) ->
+      output_message ~flush_output:true oc !last_id "ready"
+        (Json.Assoc ["subgoals", Json.List [Json.Int p; Json.Int n]])
+    | false, _ ->
+      send_string ~flush_output:true "ready:" (Printf.sprintf "subgoals:%s" $ string_of_subgoals subgoals)
+  in
+
+  let rec get_input () =
+    match next_line reader with
+    | Some line -> line
+    | None ->
+      let ready, _, _ = Unix.select [reader.fd; Unix.stdin] [] [] (-1.) in
+      begin match ready with
+      | fd :: _ when fd = reader.fd ->
+        fill reader
+      | _ :: _ -> begin
+        let cmd = input_line stdin in
+        match cmd with
+        | "stop" ->
+          Format.printf "[STOP] Stop requested@.";
+          raise End_of_file
+        | _ -> Format.eprintf "[WARN] Unknown command: %s@." cmd
       end
-    end
-    | [] -> failwith "No input available"
+      | [] -> failwith "No input available"
+      end;
+      get_input ()
   in
 
   let parse_args input =
@@ -235,9 +592,17 @@ let rec mt_service (ic, oc) =
       input, []
   in
 
-  let eval_input input =
-    try
-      let input, args = parse_args input in
+  (* Returns the evaluation status (`Ok, `Error, or `Timeout) and the result *)
+  let eval_input input args =
+    let timeout =
+      match Option.bind (List.assoc_opt "timeout" args) float_of_string_opt with
+      | Some t when t > 0. -> Some t
+      | _ -> None in
+    let status (ok, result) =
+      match timeout with
+      | Some t when !timed_out -> `Timeout, Printf.sprintf "Timeout: evaluation took longer than %g seconds" t
+      | _ -> (if ok then `Ok else `Error), result in
+    status $ try
       let is_defined arg = Option.fold ~none:false ~some:(Fun.const true) (List.assoc_opt arg args) in
       let finally () =
         Format.pp_print_flush Format.std_formatter ();
@@ -250,50 +615,224 @@ let rec mt_service (ic, oc) =
       Fun.protect ~finally $ fun () -> 
         redirect Unix.stdout new_stdout;
         redirect Unix.stderr new_stderr;
-        toploop_eval ~silent:(is_defined "silent") ~string:(is_defined "string") input
+        with_timeout timeout (fun () ->
+          toploop_eval ~silent:(is_defined "silent") ~string:(is_defined "string") input)
     with exn ->
       let exn_str = Printexc.to_string exn in
       if !debug_flag then Format.eprintf "[ERROR] %s@." exn_str; 
       false, exn_str
   in
 
-  send_string ~flush_output:true "info:" (Printf.sprintf "interrupt:true;pid:%d" $ Unix.getpid ());
+  (* Evaluates a query while the main thread evaluates another request.
+     The toplevel is not reentrant so the query is evaluated in a child process which
+     gets a copy of the state at the moment of the fork (i.e., the state before the running request).
+     Returns None if the query cannot be evaluated in a child process. *)
+  let eval_concurrent_query input args =
+    let string = List.mem_assoc "string" args in
+    let fdin, fdout = Unix.pipe ~cloexec:true () in
+    match Unix.fork () with
+    | exception Unix.Unix_error _ ->
+      Unix.close fdin; Unix.close fdout;
+      None
+    | 0 ->
+      (* The child process never returns to the code of the parent process *)
+      begin try
+        Unix.close fdin;
+        (* The output of the child process is ignored *)
+        let null = Unix.openfile "/dev/null" [Unix.O_WRONLY] 0 in
+        Unix.dup2 null Unix.stdout;
+        Unix.dup2 null Unix.stderr;
+        let result =
+          try toploop_eval ~silent:true ~string input
+          with exn -> false, Printexc.to_string exn in
+        let result_oc = Unix.out_channel_of_descr fdout in
+        Marshal.to_channel result_oc (result : bool * string) [];
+        flush result_oc
+      with _ -> ()
+      end;
+      Unix._exit 0
+    | pid ->
+      Unix.close fdout;
+      let ic = Unix.in_channel_of_descr fdin in
+      Fun.protect ~finally:(fun () -> close_in ic; ignore (restart_on_EINTR (Unix.waitpid []) pid)) $ fun () ->
+        let ready, _, _ = restart_on_EINTR (Unix.select [fdin] [] []) concurrent_query_timeout in
+        if ready = [] then begin
+          Unix.kill pid Sys.sigkill;
+          Some (`Timeout, Printf.sprintf "Timeout: query took longer than %g seconds" concurrent_query_timeout)
+        end else
+          match (Marshal.from_channel ic : bool * string) with
+          | ok, result -> Some ((if ok then `Ok else `Error), result)
+          | exception _ -> Some (`Error, "Query failed")
+  in
+
+  let cancel_query id =
+    queries := List.filter (fun (id', _, _) -> id' <> id) !queries
+  in
+
+  (* Client requests received during evaluation *)
+  let on_request line =
+    let interrupt () = Unix.kill (Unix.getpid ()) Sys.sigint in
+    if !json_mode then begin
+      match parse_request line with
+      | Interrupt -> interrupt ()
+      | Query (id, input, args) when List.mem_assoc "concurrent" args ->
+        begin match eval_concurrent_query input args with
+        | Some (status, result) ->
+          output_message ~flush_output:true ~channel:"query" oc id (message_type_of_status status) (Json.String result)
+        | None -> queries := !queries @ [id, input, args]
+        end
+      | Query (id, input, args) -> queries := !queries @ [id, input, args]
+      | Cancel id -> cancel_query id
+      | Eval _ -> pending_requests := !pending_requests @ [line]
+      | exception Json.Parse_error msg -> Format.eprintf "[THREAD] Bad request: %s@." msg
+    end else if line = "$interrupt" then
+      interrupt ()
+    else if !debug_flag then
+      Format.eprintf "[THREAD] Unexpected command: %s@." line
+  in
+
+  (* Evaluates the input while a monitor thread processes client requests and the output.
+     The monitor thread and the main thread never access shared data simultaneously. *)
+  let eval_with_monitor ~on_output input args =
+    (* Start a monitor thread *)
+    let t = Thread.create (monitor_thread ~on_request ~on_output reader) labelled_fdins in
+    let stop_monitor () =
+      (* prerr_endline "Stopping monitor"; *)
+      ignore (Unix.single_write fdout_ctrl bytes 0 1);
+      Thread.join t;
+      (* prerr_endline "Thread joined"; *)
+      (* If the thread is already stopped, we don't want to keep any data in the control pipe *)
+      ignore (drain fdin_ctrl)
+    in
+    (* Evaluate the input *)
+    let status, result = Fun.protect ~finally:stop_monitor (fun () -> eval_input input args) in
+    let stdout_str = Buffer.contents (drain fdin_stdout) in
+    let stderr_str = Buffer.contents (drain fdin_stderr) in
+    status, result, stdout_str, stderr_str
+  in
+
+  (* Queries are silent and their output is ignored.
+     Queries received during an evaluation are answered after this evaluation finishes
+     unless they have the "concurrent" argument (see eval_concurrent_query). *)
+  let rec run_queries () =
+    match !queries with
+    | [] -> ()
+    | (id, input, args) :: rest ->
+      queries := rest;
+      if !debug_flag then Format.printf "Query: %s@." input;
+      let status, result, _, _ = eval_with_monitor ~on_output:(fun _ _ -> ()) input (("silent", "") :: args) in
+      output_message ~flush_output:true ~channel:"query" oc id (message_type_of_status status) (Json.String result);
+      run_queries ()
+  in
+
+  (* Returns the next main channel request. Queries are evaluated while waiting for this request. *)
+  let rec next_request () =
+    let line = match !pending_requests with
+      | line :: rest -> pending_requests := rest; line
+      | [] -> get_input () in
+    match parse_request line with
+    | Query (id, input, args) ->
+      queries := !queries @ [id, input, args];
+      run_queries ();
+      next_request ()
+    | Cancel id ->
+      cancel_query id;
+      next_request ()
+    | request -> request
+    | exception Json.Parse_error msg ->
+      Format.eprintf "[ERROR] Bad request: %s@." msg;
+      next_request ()
+  in
+
+  (* The client requests the JSON-lines protocol with the input $protocol=json;version=N$ *)
+  let handshake args =
+    let version = Option.bind (List.assoc_opt "version" args) int_of_string_opt in
+    match List.assoc_opt "protocol" args, version with
+    | Some "json", Some v when v = protocol_version ->
+      json_mode := true;
+      output_message ~flush_output:true oc Json.Null "hello" (Json.Assoc [
+        "version", Json.Int protocol_version;
+        "pid", Json.Int (Unix.getpid ());
+        "interrupt", Json.Bool true;
+      ])
+    | _ ->
+      send_string ~flush_output:true "rerror:"
+        (Printf.sprintf "Unsupported protocol (supported protocol: json, version %d)" protocol_version)
+  in
+
+  let process_input id input args =
+    if List.mem input ["#quit"; "#quit;;"] then raise End_of_file;
+    let start_wall = Unix.gettimeofday () and start_cpu = Sys.time () in
+    let status, result, stdout_str, stderr_str = eval_with_monitor ~on_output:(send_output id) input args in
+    let wall = Unix.gettimeofday () -. start_wall and cpu = Sys.time () -. start_cpu in
+    (* Send the response to a client *)
+    (* Sigpipe is raised here if the connection is broken *)
+    if !json_mode then begin
+      if stdout_str <> "" then output_message oc id "stdout" (Json.String stdout_str);
+      if stderr_str <> "" then output_message oc id "stderr" (Json.String stderr_str);
+      output_message oc id "timing" (Json.Assoc ["wall", Json.Float wall; "cpu", Json.Float cpu]);
+      (* Structured error data is sent before the error message *)
+      if status = `Error then
+        Option.iter (fun info -> output_message oc id "diagnostic" (json_of_error_info info))
+          (parse_error_info result);
+      output_message oc id (message_type_of_status status) (Json.String result)
+    end else begin
+      send_string "stdout:" stdout_str;
+      send_string "stderr:" stderr_str;
+      send_string (if status = `Ok then "result:" else "rerror:") result
+    end;
+    flush oc;
+    flush stdout; 
+    flush stderr
+  in
+
+  (* The client authenticates itself with the input $auth=TOKEN$ *)
+  let authenticate token =
+    let input = try String.trim (Scanf.unescaped (get_input ())) with Scanf.Scan_failure _ -> "" in
+    match List.assoc_opt "auth" (snd (parse_args input)) with
+    | Some client_token when secure_equal client_token token ->
+      send_string ~flush_output:true "result:" "Authenticated"
+    | _ ->
+      (try send_string ~flush_output:true "rerror:" "Authentication failed: invalid token"
+       with Sigpipe -> ());
+      raise Authentication_failed
+  in
+
+  send_string ~flush_output:true "info:"
+    (Printf.sprintf "interrupt:true;pid:%d;protocol:%d;auth:%b"
+      (Unix.getpid ()) protocol_version (Option.is_some token));
 
   let connected = ref true in
+  (* No input is accepted before the client is authenticated *)
+  (try Option.iter authenticate token with End_of_file -> connected := false);
   while !connected do
     try
+      (* Answer queries received during the previous evaluation *)
+      run_queries ();
       (* Wait for the input *)
-      send_string ~flush_output:true "ready:" (Printf.sprintf "subgoals:%s" $ hol_get_num_subgoals ());
-      let raw_input = get_input ic in
-      let input = 
-        try String.trim (Scanf.unescaped raw_input)
-        with _ -> Format.eprintf "[ERROR] Bad input@."; raw_input in
-      (* Process special input cases *)
-      if !debug_flag then Format.printf "Input: %s@." input;
-      if input = "$interrupt" then raise Sys.Break;
-      if List.mem input ["#quit"; "#quit;;"] then raise End_of_file;
-      (* Start a monitor thread *)
-      let t = Thread.create (monitor_thread ic oc) labelled_fdins in
-      let stop_monitor () =
-        (* prerr_endline "Stopping monitor"; *)
-        ignore (Unix.single_write fdout_ctrl bytes 0 1);
-        Thread.join t;
-        (* prerr_endline "Thread joined"; *)
-        (* If the thread is already stopped, we don't want to keep any data in the control pipe *)
-        ignore (drain fdin_ctrl)
-      in
-      (* Evaluate the input *)
-      let ok, result = Fun.protect ~finally:stop_monitor (fun () -> eval_input input) in
-      (* Send the response to a client *)
-      (* Sigpipe is raised here if the connection is broken *)
-      let stdout_str = Buffer.contents (drain fdin_stdout) in
-      let stderr_str = Buffer.contents (drain fdin_stderr) in
-      send_string "stdout:" stdout_str;
-      send_string "stderr:" stderr_str;
-      send_string (if ok then "result:" else "rerror:") result;
-      flush oc;
-      flush stdout; 
-      flush stderr;
+      send_ready ();
+      if !json_mode then begin
+        match next_request () with
+        | Eval (id, input, args) ->
+          if !debug_flag then Format.printf "Input: %s@." input;
+          last_id := id;
+          process_input id input args
+        | Interrupt -> raise Sys.Break
+        | Query _ | Cancel _ -> ()
+      end else begin
+        let raw_input = get_input () in
+        let input = 
+          try String.trim (Scanf.unescaped raw_input)
+          with _ -> Format.eprintf "[ERROR] Bad input@."; raw_input in
+        (* Process special input cases *)
+        if !debug_flag then Format.printf "Input: %s@." input;
+        if input = "$interrupt" then raise Sys.Break;
+        let input, args = parse_args input in
+        if List.mem_assoc "protocol" args then
+          handshake args
+        else
+          process_input Json.Null input args
+      end
     with
     | Sigpipe -> Format.eprintf "SIGPIPE@."; connected := false
     | End_of_file -> connected := false
@@ -310,7 +849,19 @@ let establish_forkless_server ?(single_connection = false) server_fun sockaddr =
   with_close (Unix.socket domain Unix.SOCK_STREAM 0) $ fun sock ->
   try
     Unix.setsockopt sock Unix.SO_REUSEADDR true;
-    Unix.bind sock sockaddr;
+    (* Only the owner can connect to a Unix domain socket.
+       The socket file is created with these permissions so there is no window when
+       other users can connect to it. *)
+    (match sockaddr with
+     | Unix.ADDR_UNIX _ ->
+       let old_umask = Unix.umask 0o177 in
+       Fun.protect ~finally:(fun () -> ignore (Unix.umask old_umask)) (fun () -> Unix.bind sock sockaddr)
+     | Unix.ADDR_INET _ -> Unix.bind sock sockaddr);
+    let remove_socket_file () =
+      match sockaddr with
+      | Unix.ADDR_UNIX path -> (try Sys.remove path with _ -> ())
+      | Unix.ADDR_INET _ -> () in
+    Fun.protect ~finally:remove_socket_file $ fun () ->
     Unix.listen sock 1;
     while true do
       let (s, caller) = restart_on_EINTR Unix.accept sock in
@@ -322,8 +873,13 @@ let establish_forkless_server ?(single_connection = false) server_fun sockaddr =
         (* We use close_out_noerr to avoid potential SIGPIPE errors *)
         close_out_noerr outchan;
       in
-      Fun.protect ~finally (fun () -> server_fun (inchan, outchan));
-      if single_connection then raise Sys.Break;
+      let authenticated =
+        try Fun.protect ~finally (fun () -> server_fun (inchan, outchan)); true
+        with Authentication_failed ->
+          Format.printf "[ERROR] Authentication failed: %s@." (string_of_sockaddr caller);
+          false in
+      (* A client with an invalid token does not stop a single connection server *)
+      if single_connection && authenticated then raise Sys.Break;
     done
   with 
   | Unix.Unix_error (Unix.EADDRINUSE, _, _) ->
@@ -339,10 +895,27 @@ let get_host_address host_name =
   let host = Unix.gethostbyname host_name in
   host.Unix.h_addr_list.(0)
 
-let start ?single_connection ?(host_name = "127.0.0.1") port =
+let start ?single_connection ?token ?(host_name = "127.0.0.1") port =
   Sys.catch_break true;
   let address = get_host_address host_name in
   Format.printf "MT Server; PID: %d; Host address: %s; port number: %d (no forks)@." 
     $ Unix.getpid () $ Unix.string_of_inet_addr address $ port;
   flush_all();
-  establish_forkless_server ?single_connection mt_service (Unix.ADDR_INET (address, port))
+  establish_forkless_server ?single_connection (mt_service ?token) (Unix.ADDR_INET (address, port))
+
+(* Removes a socket file left by a server which is not running anymore *)
+let remove_stale_socket path =
+  if Sys.file_exists path && (Unix.stat path).Unix.st_kind = Unix.S_SOCK then
+    let alive =
+      with_close (Unix.socket Unix.PF_UNIX Unix.SOCK_STREAM 0) $ fun sock ->
+        try Unix.connect sock (Unix.ADDR_UNIX path); true
+        with Unix.Unix_error _ -> false in
+    if not alive then Sys.remove path
+
+let start_unix ?single_connection ?token path =
+  Sys.catch_break true;
+  remove_stale_socket path;
+  Format.printf "MT Server; PID: %d; Unix domain socket: %s (no forks)@."
+    $ Unix.getpid () $ path;
+  flush_all();
+  establish_forkless_server ?single_connection (mt_service ?token) (Unix.ADDR_UNIX path)
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+
+import { CheckedRegions } from './checked-region';
+import * as config from './config';
+import { CommandDecorations, CommandDecorationType } from './decoration';
+import { classifyProofCommand } from './executor';
+import { Repl } from './repl';
+import * as selection from './selection';
+import * as util from './util';
+
+const EXECUTED_TYPES = [CommandDecorationType.success, CommandDecorationType.failure, CommandDecorationType.timeout];
+
+/**
+ * Detects edits of executed text. Executed statements after an edit are marked as stale
+ * and the checked region is retracted. If hol-light.rollbackOnEdit is true then
+ * edited proof steps are undone with b() and the user can re-run edited top-level statements
+ * or restart HOL Light.
+ */
+export class AutoRetraction {
+    constructor(private repl: Repl, private decorations: CommandDecorations, private checkedRegions: CheckedRegions) {
+    }
+
+    async onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        const { document, contentChanges } = event;
+        if (!contentChanges.length) {
+            return;
+        }
+        // Ranges of all changes refer to the document before the change.
+        // Changes are sorted in the reverse order so they can be applied one by one.
+        const editStart = contentChanges
+            .map(change => change.range.start)
+            .reduce((a, b) => a.isBefore(b) ? a : b);
+        const adjust = (range: vscode.Range) =>
+            contentChanges.reduce((r, change) => util.adjustRange(r, change), range);
+
+        this.checkedRegions.retractEdited(document, contentChanges);
+
+        // Only the last executed statement is highlighted so executed ranges are tracked separately
+        const executed = this.decorations.removeExecutedRangesAfter(document.uri, editStart);
+        const successRanges = executed.filter(r => r.type === CommandDecorationType.success).map(r => r.range);
+        const highlighted = [...EXECUTED_TYPES, CommandDecorationType.stale].flatMap(type => this.decorations.removeRangesAfter(type, document.uri, editStart));
+        const staleRanges = executed.map(r => r.range);
+        for (const range of highlighted) {
+            if (!staleRanges.some(r => r.isEqual(range))) {
+                staleRanges.push(range);
+            }
+        }
+        for (const range of staleRanges) {
+            this.decorations.addRange(CommandDecorationType.stale, new vscode.Location(document.uri, adjust(range)));
+        }
+
+        if (successRanges.length && config.getConfigOption(config.ROLLBACK_ON_EDIT, false)) {
+            await this.rollback(document, editStart, successRanges, adjust);
+        }
+    }
+
+    private async rollback(document: vscode.TextDocument, editStart: vscode.Position, successRanges: vscode.Range[],
+                           adjust: (range: vscode.Range) => vscode.Range) {
+        const uri = document.uri.toString();
+        const history = this.repl.getTacticHistory();
+        const isEdited = (loc: vscode.Location | undefined) =>
+            loc?.uri.toString() === uri && loc.range.end.isAfter(editStart);
+
+        // Undo proof steps starting from the first edited tactic
+        const firstEdited = history.findIndex(isEdited);
+        if (firstEdited >= 0) {
+            const steps = history.length - firstEdited;
+            this.repl.execute(Array.from({ length: steps }, () => ({ cmd: 'b();;', options: { proofCommand: 'b' as const } })));
+        }
+
+        const isTactic = (range: vscode.Range) => history.some(loc => loc?.uri.toString() === uri && loc.range.isEqual(range));
+        const statements = successRanges.filter(range => !isTactic(range)).map(adjust);
+        if (!statements.length) {
+            return;
+        }
+
+        const rerun = 'Re-run Statements';
+        const restart = 'Restart HOL Light';
+        const res = await vscode.window.showWarningMessage(
+            `${statements.length} executed statement${statements.length === 1 ? ' was' : 's were'} edited: the HOL Light state may not match the document`,
+            rerun, restart);
+        if (res === rerun) {
+            const start = statements.map(range => range.start).reduce((a, b) => a.isBefore(b) ? a : b);
+            const end = statements.map(range => range.end).reduce((a, b) => a.isAfter(b) ? a : b);
+            const commands = selection.splitStatements(document, { range: new vscode.Range(start, end) })
+                .map(({ text, documentStart, documentEnd }) => ({
+                    cmd: text.trim(),
+                    options: {
+                        location: util.locationStartEnd(document, documentStart, documentEnd),
+                        proofCommand: classifyProofCommand(text),
+                    },
+                }))
+                .filter(command => command.cmd);
+            this.repl.execute(commands);
+        } else if (res === restart) {
+            this.repl.dispose();
+            this.checkedRegions.reset();
+            this.decorations.clearAll(document.uri);
+            this.decorations.clearExecutedRanges();
+            await vscode.commands.executeCommand('hol-light.repl');
+        }
+    }
+}
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+
+import { CommandDecorations, CommandDecorationType, Decorations } from './decoration';
+import { CancelledError, classifyProofCommand } from './executor';
+import { Repl } from './repl';
+import * as selection from './selection';
+import * as util from './util';
+
+interface Statement {
+    cmd: string;
+    location: vscode.Location;
+}
+
+interface Region {
+    // The end of the last processed statement
+    end: vscode.Position;
+    // Statements which are waiting for execution
+    queue: Statement[];
+    // The statement which is currently executed (undefined after a retraction)
+    current?: Statement;
+    // Incremented every time the region is retracted. Results of statements sent
+    // before a retraction do not extend the region.
+    generation: number;
+}
+
+/**
+ * Proof General-style checked regions: every document has a prefix which has been
+ * processed by HOL Light. Statements are processed one by one and the region grows after
+ * each successfully executed statement. Only statements after the region are sent to HOL Light.
+ */
+export class CheckedRegions implements vscode.Disposable {
+    private regions = new Map<string, Region>();
+
+    // Shows the boundary of checked regions
+    private boundary: Decorations;
+    private boundaryDecoration: vscode.TextEditorDecorationType;
+
+    constructor(private repl: Repl, private decorations: CommandDecorations) {
+        this.boundaryDecoration = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            borderColor: new vscode.ThemeColor('editorInfo.foreground'),
+            borderStyle: 'none none solid none',
+            borderWidth: '0 0 1px 0',
+            overviewRulerColor: new vscode.ThemeColor('editorInfo.foreground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Center,
+        });
+        this.boundary = new Decorations(this.boundaryDecoration);
+    }
+
+    dispose() {
+        this.boundaryDecoration.dispose();
+    }
+
+    private getRegion(uri: vscode.Uri): Region {
+        let region = this.regions.get(uri.toString());
+        if (!region) {
+            region = { end: new vscode.Position(0, 0), queue: [], generation: 0 };
+            this.regions.set(uri.toString(), region);
+        }
+        return region;
+    }
+
+    /**
+     * Returns the end of the checked region of the given document.
+     */
+    getCheckedEnd(uri: vscode.Uri): vscode.Position {
+        return this.regions.get(uri.toString())?.end ?? new vscode.Position(0, 0);
+    }
+
+    updateDecorations() {
+        this.boundary.updateDecorations();
+    }
+
+    private setEnd(document: vscode.TextDocument, region: Region, end: vscode.Position) {
+        region.end = end;
+        if (end.line === 0 && end.character === 0) {
+            this.boundary.clear(document.uri);
+        } else {
+            this.boundary.setRange(new vscode.Location(document.uri, new vscode.Range(end, end)));
+        }
+    }
+
+    /**
+     * Processes all statements between the end of the checked region and the cursor
+     * (including the statement at the cursor).
+     */
+    assertToCursor(editor: vscode.TextEditor) {
+        const document = editor.document;
+        const region = this.getRegion(document.uri);
+        const start = region.queue.at(-1)?.location.range.end ?? region.current?.location.range.end ?? region.end;
+        if (editor.selection.active.isBeforeOrEqual(start)) {
+            return;
+        }
+        const statements = selection.splitStatements(document, {
+            range: new vscode.Range(start, editor.selection.active),
+            parseLastStatement: true,
+        }).map(({ text, documentStart, documentEnd }) => ({
+            cmd: text.trim(),
+            location: util.locationStartEnd(document, documentStart, documentEnd),
+        })).filter(statement => statement.cmd);
+        if (!statements.length) {
+            return;
+        }
+
+        if (!this.repl.canExecuteForResult()) {
+            // Results are not available: the region is extended immediately
+            this.repl.execute(statements.map(({ cmd, location }) => ({
+                cmd, options: { location, proofCommand: classifyProofCommand(cmd) }
+            })));
+            this.setEnd(document, region, statements.at(-1)!.location.range.end);
+            return;
+        }
+
+        for (const statement of statements) {
+            this.decorations.addRange(CommandDecorationType.pending, statement.location);
+        }
+        region.queue.push(...statements);
+        if (!region.current) {
+            this.processQueue(document, region);
+        }
+    }
+
+    private async processQueue(document: vscode.TextDocument, region: Region) {
+        const generation = region.generation;
+        let statement: Statement | undefined;
+        while (region.generation === generation && (statement = region.queue.shift())) {
+            region.current = statement;
+            try {
+                await this.repl.executeForResult(statement.cmd, {
+                    location: statement.location,
+                    proofCommand: classifyProofCommand(statement.cmd),
+                });
+            } catch (err) {
+                if (region.generation === generation) {
+                    this.cancelQueue(region);
+                }
+                if (!(err instanceof CancelledError)) {
+                    console.log(`Checked region: ${err}`);
+                }
+                break;
+            } finally {
+                if (region.current === statement) {
+                    region.current = undefined;
+                }
+            }
+            if (region.generation === generation) {
+                this.setEnd(document, region, statement.location.range.end);
+            }
+        }
+    }
+
+    private cancelQueue(region: Region) {
+        for (const statement of region.queue) {
+            this.decorations.removeRange(statement.location);
+        }
+        region.queue = [];
+    }
+
+    /**
+     * Moves the end of the checked region of the document back to the given offset.
+     * The statement containing the offset is removed from the checked region.
+     * Returns the retracted statements.
+     */
+    retractTo(document: vscode.TextDocument, offset: number): vscode.Location[] {
+        const region = this.regions.get(document.uri.toString());
+        if (!region) {
+            return [];
+        }
+        const statements = selection.splitStatements(document, {
+            range: new vscode.Range(new vscode.Position(0, 0), region.end),
+        });
+        const kept = statements.filter(statement => statement.documentEnd <= offset);
+        const retracted = statements.slice(kept.length)
+            .map(({ documentStart, documentEnd }) => util.locationStartEnd(document, documentStart, documentEnd));
+        if (!retracted.length && !region.queue.length && !region.current) {
+            return [];
+        }
+        region.generation++;
+        region.current = undefined;
+        this.cancelQueue(region);
+        const end = kept.length ? document.positionAt(kept.at(-1)!.documentEnd) : new vscode.Position(0, 0);
+        this.setEnd(document, region, end);
+        return retracted;
+    }
+
+    /**
+     * Retracts the checked region of the document after the document is changed.
+     * The region is not changed if all changes are after the region and its pending statements.
+     * Otherwise, the region is retracted to the first changed statement.
+     * @param changes changes of the document (their ranges refer to the document before the changes)
+     */
+    retractEdited(document: vscode.TextDocument, changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+        const region = this.regions.get(document.uri.toString());
+        if (!region || !changes.length) {
+            return;
+        }
+        const editStart = changes.map(change => change.range.start).reduce((a, b) => a.isBefore(b) ? a : b);
+        const end = region.queue.at(-1)?.location.range.end ?? region.current?.location.range.end ?? region.end;
+        if (!editStart.isBefore(end)) {
+            return;
+        }
+        // The end of the region should refer to the changed document
+        region.end = changes.reduce((range, change) => util.adjustRange(range, change), new vscode.Range(region.end, region.end)).end;
+        this.retractTo(document, document.offsetAt(editStart));
+    }
+
+    retractToCursor(editor: vscode.TextEditor) {
+        this.retractTo(editor.document, editor.document.offsetAt(editor.selection.active));
+    }
+
+    /**
+     * Removes checked regions of the given document (or all regions if uri is undefined).
+     */
+    reset(uri?: vscode.Uri) {
+        const regions = uri ? [this.regions.get(uri.toString())] : [...this.regions.values()];
+        for (const region of regions) {
+            if (region) {
+                region.generation++;
+                region.current = undefined;
+                this.cancelQueue(region);
+            }
+        }
+        if (uri) {
+            this.regions.delete(uri.toString());
+            this.boundary.clear(uri);
+        } else {
+            this.regions.clear();
+            this.boundary.removeAllDecorations();
+        }
+    }
+}
@@ -1,3 +1,4 @@
+import * as nodePath from 'path';
 import * as vscode from 'vscode';
 
 export const DEBUG: boolean = true;
@@ -7,6 +8,8 @@ export const SECTION = 'hol-light';
 export const HIGHLIGHT_COLOR = 'highlightColor';
 export const HIGHLIGHT_COLOR_SUCCESS = 'highlightColorSuccess';
 export const HIGHLIGHT_COLOR_FAILURE = 'highlightColorFailure';
+export const HIGHLIGHT_COLOR_TIMEOUT = 'highlightColorTimeout';
+export const HIGHLIGHT_COLOR_STALE = 'highlightColorStale';
 export const HOLLIGHT_PATH = 'path';
 export const EXE_PATHS = 'exePaths';
 export const ROOT_PATHS = 'rootPaths';
@@ -16,6 +19,10 @@ export const CUSTOM_IMPORTS = 'customImports';
 export const CUSTOM_DEFINITIONS = 'customDefinitions';
 export const CUSTOM_THEOREMS = 'customTheorems';
 export const TACTIC_MAX_LINES = 'tacticMaxLines';
+export const TACTIC_TIMEOUT = 'tacticTimeout';
+export const ROLLBACK_ON_EDIT = 'rollbackOnEdit';
+export const INDEX_WORKSPACE = 'indexWorkspace';
+export const WORKSPACE_INDEX_GLOB = 'workspaceIndexGlob';
 
 export const DEFAULT_SERVER_ADDRESS = 'localhost:2012';
 
@@ -66,11 +73,34 @@ export function getCustomCommandNames(): CustomCommandNames {
     };
 }
 
-export async function getServerAddress(options?: { portOnly?: boolean, showInputBox?: boolean }): Promise<[string, number] | null> {
+/**
+ * A HOL Light server address: either a TCP host and port or a path to a Unix domain socket.
+ */
+export type ServerAddress = { host: string, port: number } | { path: string };
+
+export function formatServerAddress(address: ServerAddress): string {
+    return 'path' in address ? `unix:${address.path}` : `${address.host}:${address.port}`;
+}
+
+const UNIX_SOCKET_PREFIX = 'unix:';
+
+function resolveSocketPath(path: string): string {
+    const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath || '';
+    path = path.replace(/\{workspace\}/g, workspacePath);
+    return workspacePath && !nodePath.isAbsolute(path) ? nodePath.join(workspacePath, path) : path;
+}
+
+export async function getServerAddress(options?: { portOnly?: boolean, showInputBox?: boolean }): Promise<ServerAddress | null> {
     let port = 0;
     let host = '';
+    let path = '';
 
     function parseAddress(address: string) {
+        if (address.startsWith(UNIX_SOCKET_PREFIX)) {
+            path = resolveSocketPath(address.slice(UNIX_SOCKET_PREFIX.length));
+            return;
+        }
+        path = '';
         if (address.includes(':')) {
             const xs = address.split(':');
             host = xs[0];
@@ -90,16 +120,19 @@ export async function getServerAddress(options?: { portOnly?: boolean, showInput
 
     if (options?.showInputBox) {
         const input = await vscode.window.showInputBox({
-            placeHolder: options?.portOnly ? `${port}` : `${host}:${port}`,
+            placeHolder: path ? UNIX_SOCKET_PREFIX + path : options?.portOnly ? `${port}` : `${host}:${port}`,
             title: `Enter the HOL server ${options?.portOnly ? 'port' : 'address'}`,
             validateInput: (value) => {
                 if (!value) {
                     return null;
                 }
+                if (value.startsWith(UNIX_SOCKET_PREFIX)) {
+                    return value.length > UNIX_SOCKET_PREFIX.length ? null : 'The socket path should not be empty';
+                }
                 if (options?.portOnly) {
-                    return /^\d+$/.test(value) ? null : 'The value should be a number';
+                    return /^\d+$/.test(value) ? null : 'The value should be a number or unix:/path/to/socket';
                 } else {
-                    return /^([a-z\d.]+:)?\d+$/i.test(value) ? null : 'The value should be in the format hostname:port';
+                    return /^([a-z\d.]+:)?\d+$/i.test(value) ? null : 'The value should be in the format hostname:port or unix:/path/to/socket';
                 }
             }
         });
@@ -111,5 +144,8 @@ export async function getServerAddress(options?: { portOnly?: boolean, showInput
         parseAddress(input);
     }
 
-    return [options?.portOnly ? 'localhost' : host, port];
-}
\ No newline at end of file
+    if (path) {
+        return { path };
+    }
+    return { host: options?.portOnly ? 'localhost' : host, port };
+}
@@ -5,7 +5,8 @@ import * as path from 'node:path';
 import { CustomCommandNames } from './config';
 import * as config from './config';
 import * as help from './help';
-import { Definition, Module, ParseResult, parseText, Dependency as ParserDependency, DefinitionType } from './parser';
+import { IndexCache } from './index-cache';
+import { Definition, Module, ParseResult, parseText, Dependency as ParserDependency, DefinitionType, Reference, isIdentifier } from './parser';
 import * as repl from './repl';
 import { Trie } from './trie';
 import * as util from './util';
@@ -98,14 +99,25 @@ interface FileIndex {
      * A global module for this file which tracks open/include statements
      */
     globalModule: Module;
+
+    /**
+     * All identifier occurrences in this file
+     */
+    references: Reference[];
 }
 
-export class Database implements vscode.DefinitionProvider, vscode.HoverProvider, vscode.CompletionItemProvider {
+export class Database implements vscode.DefinitionProvider, vscode.HoverProvider, vscode.CompletionItemProvider, vscode.ReferenceProvider, vscode.RenameProvider, vscode.DocumentSymbolProvider {
     /**
      * A set of base HOL Light files. It is assumed that all other files depend on these files.
      */
     private baseHolLightFiles: Set<string> = new Set();
 
+    /**
+     * A set of files indexed by `indexFiles` (workspace files). Definitions from these files are visible
+     * in files which do not depend on them only if there are no matching definitions in dependencies.
+     */
+    private workspaceFiles: Set<string> = new Set();
+
     /**
      * Information about all indexed files
      */
@@ -121,6 +133,12 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
      */
     private moduleIndex: Map<string, Module[]> = new Map();
 
+    /**
+     * The index of identifier occurrences. A qualified reference `A.B.name` is added for each of its
+     * components (`A`, `B`, and `name`).
+     */
+    private referenceIndex: Map<string, Reference[]> = new Map();
+
     /**
      * The trie index which stores definition names
      */
@@ -154,11 +172,17 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
      */
     private importPrefixRe?: RegExp;
 
-    constructor(diagnosticCollection: vscode.DiagnosticCollection, helpProvider?: help.HelpProvider, replProvider?: repl.Repl, customCommandNames?: CustomCommandNames) {
+    /**
+     * A persistent cache of parse results of indexed files
+     */
+    private indexCache?: IndexCache;
+
+    constructor(diagnosticCollection: vscode.DiagnosticCollection, helpProvider?: help.HelpProvider, replProvider?: repl.Repl, customCommandNames?: CustomCommandNames, indexCache?: IndexCache) {
         this.diagnosticCollection = diagnosticCollection;
         this.helpProvider = helpProvider;
         this.replProvider = replProvider;
         this.customCommandNames = customCommandNames ?? { customDefinitions: [], customImports: [], customTheorems: [] };
+        this.indexCache = indexCache;
     }
 
     setCustomCommandNames(customCommandNames: CustomCommandNames) {
@@ -182,7 +206,8 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
             dependencies: [...deps],
             definitions: [...result.definitions],
             modules: [...result.modules],
-            globalModule: result.globalModule
+            globalModule: result.globalModule,
+            references: [...result.references],
         });
 
         const add = <V extends { name: string }>(index: Map<string, V[]>, xs: V[]) => {
@@ -198,6 +223,16 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
 
         add(this.definitionIndex, result.definitions);
         add(this.moduleIndex, result.modules);
+
+        for (const ref of result.references) {
+            for (const name of new Set(ref.name.split('.'))) {
+                if (!this.referenceIndex.has(name)) {
+                    this.referenceIndex.set(name, [ref]);
+                } else {
+                    this.referenceIndex.get(name)!.push(ref);
+                }
+            }
+        }
     }
 
     /**
@@ -229,6 +264,17 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         remove(this.definitionIndex, file.definitions);
         remove(this.moduleIndex, file.modules);
 
+        // There could be many references with the same name so they are filtered in one pass for each name
+        const refs = new Set(file.references);
+        for (const name of new Set(file.references.flatMap(ref => ref.name.split('.')))) {
+            const els = this.referenceIndex.get(name)?.filter(ref => !refs.has(ref));
+            if (els?.length) {
+                this.referenceIndex.set(name, els);
+            } else {
+                this.referenceIndex.delete(name);
+            }
+        }
+
         this.fileIndex.delete(filePath);
         // TODO: remove from trieIndex (probably, not necessary since trieIndex stores names only)
     }
@@ -250,8 +296,12 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         const file = this.fileIndex.get(filePath);
         const mtime = (await fs.stat(filePath)).mtimeMs;
         if (mtime > (file?.mtime ?? -1)) {
-            const text = await fs.readFile(filePath, 'utf-8');
-            const result = parseText(text, vscode.Uri.file(filePath), { customNames, debug: config.DEBUG });
+            let result = await this.indexCache?.get(filePath, mtime, customNames);
+            if (!result) {
+                const text = await fs.readFile(filePath, 'utf-8');
+                result = parseText(text, vscode.Uri.file(filePath), { customNames, debug: config.DEBUG });
+                await this.indexCache?.set(filePath, mtime, customNames, result);
+            }
             const deps = rootPaths ? await resolveDependencies(result.dependencies, { basePath: path.dirname(filePath), holPath, rootPaths }) : [];
             // Check the cancellation token before modifying any global state
             if (token?.isCancellationRequested) {
@@ -264,6 +314,42 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         return { indexed: false, globalModule: file?.globalModule, deps: file?.dependencies || [] };
     }
 
+    /**
+     * Indexes the given files. Dependencies are resolved but they are not indexed.
+     * Files which have not been modified since they were indexed are skipped.
+     */
+    async indexFiles(
+            filePaths: string[],
+            holPath: string,
+            rootPaths: string[],
+            token?: vscode.CancellationToken,
+            progress?: vscode.Progress<{ increment: number, message: string }>) {
+        for (const filePath of filePaths) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            progress?.report({ increment: 100 / filePaths.length, message: filePath });
+            this.workspaceFiles.add(filePath);
+            try {
+                const { indexed } = await this.indexFile(filePath, holPath, rootPaths, this.customCommandNames, token);
+                if (indexed && config.DEBUG) {
+                    console.log(`Indexed: ${filePath}`);
+                }
+            } catch (err) {
+                console.error(`File indexing error: ${filePath}\n${err}`);
+            }
+        }
+        await this.indexCache?.save();
+    }
+
+    /**
+     * Removes the given file from the index (e.g., after the file is deleted).
+     */
+    removeFile(filePath: string) {
+        this.workspaceFiles.delete(filePath);
+        this.removeFromIndex(filePath);
+    }
+
     /**
      * Checks if the given `filePath` depends on `dependency` 
      * @param filePath
@@ -426,8 +512,7 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
      * @param position 
      * @returns 
      */
-    findDefinitionsAndModules(word: string, filePath: string, position: vscode.Position): { defs: Definition[], mods: Set<Module> } {
-        const deps = this.allDependencies(filePath);
+    findDefinitionsAndModules(word: string, filePath: string, position: vscode.Position, deps = this.allDependencies(filePath)): { defs: Definition[], mods: Set<Module> } {
         const openModules = this.allOpenModules(filePath, position, deps);
 
         const names = word.split('.');
@@ -440,6 +525,88 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         return { defs, mods };
     }
 
+    /**
+     * Returns all dependencies of a file together with all indexed workspace files.
+     */
+    private withWorkspaceFiles(deps: Set<string>): Set<string> {
+        return this.workspaceFiles.size ? new Set([...deps, ...this.workspaceFiles]) : deps;
+    }
+
+    /**
+     * The same as `findDefinitionsAndModules` but if nothing is found in dependencies of the file
+     * then definitions and modules from indexed workspace files are returned.
+     * @param word
+     * @param filePath
+     * @param position
+     */
+    findDefinitionsAndModulesWithFallback(word: string, filePath: string, position: vscode.Position): { defs: Definition[], mods: Set<Module> } {
+        const deps = this.allDependencies(filePath);
+        const result = this.findDefinitionsAndModules(word, filePath, position, deps);
+        if (result.defs.length || result.mods.size || !this.workspaceFiles.size) {
+            return result;
+        }
+        return this.findDefinitionsAndModules(word, filePath, position, this.withWorkspaceFiles(deps));
+    }
+
+    /**
+     * Returns all definitions and modules referenced by the i-th component of the qualified name (word).
+     * Only modules are returned for all components except the last one.
+     */
+    private findReferenceTargets(word: string, i: number, filePath: string, position: vscode.Position, deps?: Set<string>): { defs: Definition[], mods: Set<Module> } {
+        const names = word.split('.');
+        const { defs, mods } = this.findDefinitionsAndModules(names.slice(0, i + 1).join('.'), filePath, position, deps);
+        return { defs: i === names.length - 1 ? defs : [], mods };
+    }
+
+    /**
+     * Returns all references to the given definitions and modules in indexed files.
+     * A reference is included if its name resolves (at the position of the reference) to one of
+     * the given definitions or modules. Returned locations cover only the referenced component of
+     * qualified names (e.g., `name` in `Module.name`).
+     * @param name the name of all given definitions and modules
+     * @param defs
+     * @param mods
+     * @param includeDeclaration if false then the names of the definitions and modules are not included
+     * @param token
+     */
+    findReferences(name: string, defs: Definition[], mods: Iterable<Module>, includeDeclaration: boolean, token?: vscode.CancellationToken): vscode.Location[] {
+        const targets = new Set<Definition | Module>([...defs, ...mods]);
+        const declarations = new Set(util.filterMap([...targets], target =>
+            target.getFilePath() && `${target.getFilePath()}:${target.position.line}:${target.position.character}`));
+        // Dependencies are computed once for each file
+        const depsCache = new Map<string, Set<string>>();
+        const locations: vscode.Location[] = [];
+        for (const ref of this.referenceIndex.get(name) ?? []) {
+            if (token?.isCancellationRequested) {
+                return [];
+            }
+            const filePath = ref.getFilePath();
+            if (!filePath) {
+                continue;
+            }
+            if (!depsCache.has(filePath)) {
+                depsCache.set(filePath, this.allDependencies(filePath));
+            }
+            const names = ref.name.split('.');
+            for (let i = 0; i < names.length; i++) {
+                if (names[i] !== name) {
+                    continue;
+                }
+                if (i === 0 && !includeDeclaration && declarations.has(`${filePath}:${ref.position.line}:${ref.position.character}`)) {
+                    continue;
+                }
+                const { defs, mods } = this.findReferenceTargets(ref.name, i, filePath, ref.position, depsCache.get(filePath));
+                if (defs.some(def => targets.has(def)) || [...mods].some(mod => targets.has(mod))) {
+                    const loc = ref.getLocation(i);
+                    if (loc) {
+                        locations.push(loc);
+                    }
+                }
+            }
+        }
+        return locations;
+    }
+
     updateDiagnostic(uri: vscode.Uri, deps: Dependency[], globalModule: Module | undefined) {
         const unresolvedDeps = deps.filter(dep => !dep.isResolved).map(dep => {
             const diagnostic = new vscode.Diagnostic(dep.range, 'Unresolved dependency', vscode.DiagnosticSeverity.Warning);
@@ -522,6 +689,7 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         if (config.DEBUG) {
             console.log(`Done indexing HOL Light base files`);
         }
+        await this.indexCache?.save();
         return true;
     });
 
@@ -622,6 +790,7 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
             }
         }
 
+        await this.indexCache?.save();
         progress?.report({ increment: 100, message: 'Done' });
 
         // Show a warning message only when a progress indicator is shown
@@ -695,7 +864,7 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
             return null;
         }
 
-        const { defs, mods } = this.findDefinitionsAndModules(word, document.uri.fsPath, position);
+        const { defs, mods } = this.findDefinitionsAndModulesWithFallback(word, document.uri.fsPath, position);
         const defLocs = util.filterMap(defs, def => def.getLocation());
         const modLocs = util.filterMap(mods, mod => mod.getLocation());
         if (!defLocs.length && !modLocs.length) {
@@ -710,6 +879,158 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         return locs;
     }
 
+    /**
+     * Returns the component of a qualified name at the given position:
+     * its index `i` in the qualified name (word) and its range.
+     */
+    private getNameComponentAtPosition(document: vscode.TextDocument, position: vscode.Position): { word: string, name: string, i: number, range: vscode.Range } | null {
+        const [word, range] = util.getWordAtPosition(document, position);
+        if (!word || !range) {
+            return null;
+        }
+        const names = word.split('.');
+        let i = 0;
+        let start = range.start.character;
+        while (i < names.length - 1 && start + names[i].length < position.character) {
+            start += names[i].length + 1;
+            i++;
+        }
+        return { word, name: names[i], i, range: new vscode.Range(position.line, start, position.line, start + names[i].length) };
+    }
+
+    /**
+     * Implements ReferenceProvider
+     * @param document
+     * @param position
+     * @param context
+     * @param token
+     * @returns
+     */
+    provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext, token: vscode.CancellationToken) {
+        const component = this.getNameComponentAtPosition(document, position);
+        if (!component) {
+            return null;
+        }
+        const { word, name, i } = component;
+        const { defs, mods } = this.findReferenceTargets(word, i, document.uri.fsPath, position);
+        if (!defs.length && !mods.size) {
+            return null;
+        }
+        return this.findReferences(name, defs, mods, context.includeDeclaration, token);
+    }
+
+    /**
+     * Returns definitions which can be renamed at the given position.
+     * Throws an error (which is shown by the editor) if there is nothing to rename.
+     */
+    private findRenameTargets(document: vscode.TextDocument, position: vscode.Position): { name: string, range: vscode.Range, defs: Definition[] } {
+        const component = this.getNameComponentAtPosition(document, position);
+        if (!component) {
+            throw new Error('No definition at the cursor position');
+        }
+        const { word, name, i, range } = component;
+        const { defs, mods } = this.findReferenceTargets(word, i, document.uri.fsPath, position);
+        if (!defs.length) {
+            throw new Error(mods.size ? 'Modules cannot be renamed' : `Definition of ${name} is not found`);
+        }
+        if (defs.some(def => this.baseHolLightFiles.has(def.getFilePath() ?? ''))) {
+            throw new Error(`${name} is defined in HOL Light and cannot be renamed`);
+        }
+        return { name, range, defs };
+    }
+
+    /**
+     * Returns definitions with the given name which are visible in files of the given locations
+     * (i.e., definitions which clash with a new name of renamed definitions).
+     */
+    findNameClashes(name: string, locations: vscode.Location[]): Definition[] {
+        const clashes = new Set<Definition>();
+        for (const filePath of new Set(locations.map(loc => loc.uri.fsPath))) {
+            const deps = this.allDependencies(filePath);
+            for (const def of this.definitionIndex.get(name) ?? []) {
+                if (deps.has(def.getFilePath() ?? '')) {
+                    clashes.add(def);
+                }
+            }
+        }
+        return [...clashes];
+    }
+
+    /**
+     * Implements RenameProvider
+     * @param document
+     * @param position
+     * @param _token
+     * @returns
+     */
+    prepareRename(document: vscode.TextDocument, position: vscode.Position, _token: vscode.CancellationToken) {
+        const { name, range } = this.findRenameTargets(document, position);
+        return { range, placeholder: name };
+    }
+
+    /**
+     * Implements RenameProvider.
+     * Renames definitions and all their references in indexed files (including qualified names `Module.name`).
+     * If there are definitions with the new name in the dependencies of modified files then a confirmation is requested.
+     * @param document
+     * @param position
+     * @param newName
+     * @param token
+     * @returns
+     */
+    async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string, token: vscode.CancellationToken) {
+        if (!isIdentifier(newName)) {
+            throw new Error(`Invalid name: ${newName}`);
+        }
+        const { name, defs } = this.findRenameTargets(document, position);
+        if (newName === name) {
+            return null;
+        }
+        const locations = this.findReferences(name, defs, [], true, token);
+        if (token.isCancellationRequested) {
+            return null;
+        }
+
+        const clashes = this.findNameClashes(newName, locations);
+        if (clashes.length) {
+            const names = clashes.slice(0, 5).map(def => {
+                const loc = def.getLocation();
+                const fullName = def.module ? `${def.module.fullName}.${def.name}` : def.name;
+                return loc ? `${fullName} (${path.basename(loc.uri.fsPath)}:${loc.range.start.line + 1})` : fullName;
+            });
+            const rename = 'Rename';
+            const result = await vscode.window.showWarningMessage(
+                `${newName} is already defined: ${names.join(', ')}${clashes.length > names.length ? ', ...' : ''}`,
+                { modal: true },
+                rename);
+            if (result !== rename) {
+                return null;
+            }
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const loc of locations) {
+            edit.replace(loc.uri, loc.range, newName);
+        }
+        return edit;
+    }
+
+    /**
+     * Implements DocumentSymbolProvider.
+     * The document is parsed directly (it is not necessary to index it first).
+     * @param document
+     * @param _token
+     * @returns
+     */
+    provideDocumentSymbols(document: vscode.TextDocument, _token: vscode.CancellationToken) {
+        const result = parseText(document.getText(), document.uri, { customNames: this.customCommandNames, debug: false });
+        const documentEnd = document.lineAt(document.lineCount - 1).range.end;
+        return [
+            ...result.definitions.filter(def => !def.module).map(def => ({ position: def.position, symbol: def.toDocumentSymbol() })),
+            ...result.modules.filter(mod => !mod.parent).map(mod => ({ position: mod.position, symbol: mod.toDocumentSymbol(documentEnd) })),
+        ].sort((a, b) => a.position.compareTo(b.position)).map(({ symbol }) => symbol);
+    }
+
     /**
      * Implements HoverProvider
      * @param document
@@ -723,7 +1044,7 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
             return null;
         }
 
-        let { defs, mods } = this.findDefinitionsAndModules(word, document.uri.fsPath, position);
+        let { defs, mods } = this.findDefinitionsAndModulesWithFallback(word, document.uri.fsPath, position);
         if (defs[0]) {
             if (defs[0].type === DefinitionType.other && this.replProvider) {
                 return this.replProvider.provideHover(document, position, token)
@@ -769,7 +1090,10 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
             // Return definitions from the provided module only
             const names = word.split('.');
             const prefix = names.at(-1)!;
-            const modules = this.resolveModuleName(names.slice(0, -1).join('.'), openModules, deps);
+            let modules = this.resolveModuleName(names.slice(0, -1).join('.'), openModules, deps);
+            if (!modules.size) {
+                modules = this.resolveModuleName(names.slice(0, -1).join('.'), openModules, this.withWorkspaceFiles(deps));
+            }
 
             const items: vscode.CompletionItem[] = [];
 
@@ -788,7 +1112,10 @@ export class Database implements vscode.DefinitionProvider, vscode.HoverProvider
         } else {
             // Return definitions from currently open modules 
             // and also all matching definitions using their fully qualified names.
-            const { defs, mods } = this.findDefinitionsAndModulesWithPrefix(word, deps);
+            let { defs, mods } = this.findDefinitionsAndModulesWithPrefix(word, deps);
+            if (!defs.length && !mods.length) {
+                ({ defs, mods } = this.findDefinitionsAndModulesWithPrefix(word, this.withWorkspaceFiles(deps)));
+            }
 
             const items: vscode.CompletionItem[] = [];
             mods.forEach(mod => {
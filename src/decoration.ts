@@ -23,7 +23,8 @@ export function createDecorationType(context: vscode.ExtensionContext, options:
 }
 
 export class Decorations {
-    private documentRanges: WeakMap<vscode.Uri, vscode.Range[]> = new WeakMap();
+    // Ranges are stored together with optional hover messages
+    private documentRanges: WeakMap<vscode.Uri, vscode.DecorationOptions[]> = new WeakMap();
 
     private decoration?: vscode.TextEditorDecorationType;
 
@@ -50,13 +51,13 @@ export class Decorations {
     }
 
     getHighlightedRanges(uri: vscode.Uri): vscode.Range[] {
-        return this.documentRanges.get(uri) ?? [];
+        return this.documentRanges.get(uri)?.map(options => options.range) ?? [];
     }
 
     removeRange(location: vscode.Location) {
         const ranges = this.documentRanges.get(location.uri);
         if (ranges) {
-            const newRanges = ranges.filter(r => !r.isEqual(location.range));
+            const newRanges = ranges.filter(r => !r.range.isEqual(location.range));
             if (ranges.length !== newRanges.length) {
                 this.documentRanges.set(location.uri, newRanges);
                 this.updateDecorations();
@@ -64,21 +65,34 @@ export class Decorations {
         }
     }
 
-    addRange(location: vscode.Location) {
+    addRange(location: vscode.Location, hoverMessage?: vscode.MarkdownString) {
         const ranges = this.documentRanges.get(location.uri);
         if (ranges) {
-            ranges.push(location.range);
+            ranges.push({ range: location.range, hoverMessage });
         } else {
-            this.documentRanges.set(location.uri, [location.range]);
+            this.documentRanges.set(location.uri, [{ range: location.range, hoverMessage }]);
         }
         this.updateDecorations();
     }
 
-    setRange(location: vscode.Location) {
-        this.documentRanges.set(location.uri, [location.range]);
+    setRange(location: vscode.Location, hoverMessage?: vscode.MarkdownString) {
+        this.documentRanges.set(location.uri, [{ range: location.range, hoverMessage }]);
         this.updateDecorations();
     }
 
+    /**
+     * Removes all ranges which end after the given position and returns them.
+     */
+    removeRangesAfter(uri: vscode.Uri, pos: vscode.Position): vscode.Range[] {
+        const ranges = this.documentRanges.get(uri) ?? [];
+        const removed = ranges.filter(r => r.range.end.isAfter(pos));
+        if (removed.length) {
+            this.documentRanges.set(uri, ranges.filter(r => !r.range.end.isAfter(pos)));
+            this.updateDecorations();
+        }
+        return removed.map(r => r.range);
+    }
+
     clear(uri: vscode.Uri) {
         this.documentRanges.delete(uri);
         this.updateDecorations();
@@ -106,20 +120,20 @@ class DecorationCollection {
         this.decorations.forEach(ds => ds.updateDecorations());
     }
 
-    setRange(decorationIndex: number, location: vscode.Location) {
+    setRange(decorationIndex: number, location: vscode.Location, hoverMessage?: vscode.MarkdownString) {
         this.decorations.forEach((ds, i) => {
             if (i === decorationIndex) {
-                ds.setRange(location);
+                ds.setRange(location, hoverMessage);
             } else {
                 ds.removeRange(location);
             }
         });
     }
 
-    addRange(decorationIndex: number, location: vscode.Location) {
+    addRange(decorationIndex: number, location: vscode.Location, hoverMessage?: vscode.MarkdownString) {
         this.decorations.forEach((ds, i) => {
             if (i === decorationIndex) {
-                ds.addRange(location);
+                ds.addRange(location, hoverMessage);
             } else {
                 ds.removeRange(location);
             }
@@ -130,6 +144,10 @@ class DecorationCollection {
         this.decorations.forEach(ds => ds.removeRange(location));
     }
 
+    removeRangesAfter(decorationIndex: number, uri: vscode.Uri, pos: vscode.Position): vscode.Range[] {
+        return this.decorations[decorationIndex]?.removeRangesAfter(uri, pos) ?? [];
+    }
+
     // Remove all decorations in the file pointed by uri.
     clear(decorationIndex: number, uri: vscode.Uri) {
         this.decorations[decorationIndex]?.clear(uri);
@@ -157,15 +175,64 @@ class DecorationCollection {
 export const enum CommandDecorationType {
     pending,
     success,
-    failure
+    failure,
+    timeout,
+    // Executed statements which have been edited (or follow edited statements)
+    stale
+}
+
+export interface ExecutedRange {
+    range: vscode.Range;
+    type: CommandDecorationType.success | CommandDecorationType.failure | CommandDecorationType.timeout;
 }
 
 export class CommandDecorations extends DecorationCollection {
-    constructor(options: { pending?: vscode.TextEditorDecorationType, success?: vscode.TextEditorDecorationType, failure?: vscode.TextEditorDecorationType }) {
+    // Ranges of all executed statements in each document.
+    // Only the last executed statement is highlighted but edits of all executed statements should be detected.
+    private executedRanges: Map<string, ExecutedRange[]> = new Map();
+
+    constructor(options: { pending?: vscode.TextEditorDecorationType, success?: vscode.TextEditorDecorationType, failure?: vscode.TextEditorDecorationType, timeout?: vscode.TextEditorDecorationType, stale?: vscode.TextEditorDecorationType }) {
         super([
             new Decorations(options.pending),
             new Decorations(options.success),
             new Decorations(options.failure),
+            new Decorations(options.timeout),
+            new Decorations(options.stale),
         ]);
     }
+
+    setRange(decorationIndex: CommandDecorationType, location: vscode.Location, hoverMessage?: vscode.MarkdownString) {
+        super.setRange(decorationIndex, location, hoverMessage);
+        if (decorationIndex === CommandDecorationType.success || decorationIndex === CommandDecorationType.failure || decorationIndex === CommandDecorationType.timeout) {
+            const key = location.uri.toString();
+            const ranges = (this.executedRanges.get(key) ?? []).filter(r => !r.range.isEqual(location.range));
+            ranges.push({ range: location.range, type: decorationIndex });
+            this.executedRanges.set(key, ranges);
+        }
+    }
+
+    /**
+     * Removes all executed ranges which end after the given position and returns them.
+     */
+    removeExecutedRangesAfter(uri: vscode.Uri, pos: vscode.Position): ExecutedRange[] {
+        const ranges = this.executedRanges.get(uri.toString()) ?? [];
+        this.executedRanges.set(uri.toString(), ranges.filter(r => !r.range.end.isAfter(pos)));
+        return ranges.filter(r => r.range.end.isAfter(pos));
+    }
+
+    /**
+     * Forgets executed ranges of the given document (or of all documents if uri is undefined).
+     */
+    clearExecutedRanges(uri?: vscode.Uri) {
+        if (uri) {
+            this.executedRanges.delete(uri.toString());
+        } else {
+            this.executedRanges.clear();
+        }
+    }
+
+    removeAllDecorations() {
+        super.removeAllDecorations();
+        this.clearExecutedRanges();
+    }
 }
\ No newline at end of file
@@ -13,6 +13,15 @@ export interface CommandOptions {
     // If this command manipulates the goal state, proofCommand stores the
     // corresponding command.
     proofCommand?: ProofCommand;
+    // If true then the command is a read-only query which may be executed in a separate
+    // channel without waiting for other commands (if it is supported by the executor).
+    // The output of queries is not shown.
+    query?: boolean;
+    // If true then a query may be answered while the server evaluates another command.
+    // The result of such a query does not reflect the running and queued commands.
+    concurrent?: boolean;
+    // Timeout in seconds (supported by HOL Light servers only)
+    timeout?: number;
 }
 
 export class InterruptedError extends Error {
@@ -22,6 +31,13 @@ export class InterruptedError extends Error {
     }
 }
 
+export class TimeoutError extends Error {
+    constructor(message?: string) {
+        super(message ?? 'Execution timed out');
+        this.name = 'TimeoutError';
+    }
+}
+
 export class CancelledError extends Error {
     constructor(message?: string) {
         super(message ?? 'Execution was cancelled');
@@ -4,14 +4,23 @@ import * as pathLib from 'node:path';
 import * as analysis from './analysis';
 import * as config from './config';
 import * as data from './database';
+import { AutoRetraction } from './auto-retraction';
+import { CheckedRegions } from './checked-region';
 import { CommandDecorationType, CommandDecorations, createDecorationType } from './decoration';
 import * as help from './help';
+import { HypothesisCompletionProvider } from './hypothesis-completion';
 import * as notebook from './notebook';
 import { GoalViewPanel } from './goal-view';
+import { createProveStatement } from './proof-history';
+import { exportGoalstateInteractive } from './goal-export';
+import { IndexCache } from './index-cache';
+import { WorkspaceIndexer } from './workspace-index';
+import { ProofStepper } from './proof-stepper';
 import { Repl } from './repl';
 import { SearchResults } from './search-results';
 import * as selection from './selection';
 import * as tactic from './tactic';
+import { showSlowestStatements } from './timing';
 import * as util from './util';
 import { classifyProofCommand } from './executor';
 import type { GoalviewState } from './types';
@@ -49,9 +58,36 @@ export function activate(context: vscode.ExtensionContext) {
                 overviewRulerLane: vscode.OverviewRulerLane.Left,
             }
         ),
+        timeout: createDecorationType(
+            context,
+            { 
+                highlightColor: config.getConfigOption(config.HIGHLIGHT_COLOR_TIMEOUT, ''),
+                overviewRulerColor: 'orange',
+                overviewRulerLane: vscode.OverviewRulerLane.Left,
+            }
+        ),
+        stale: createDecorationType(
+            context,
+            { 
+                highlightColor: config.getConfigOption(config.HIGHLIGHT_COLOR_STALE, ''),
+                overviewRulerColor: 'gray',
+                overviewRulerLane: vscode.OverviewRulerLane.Left,
+            }
+        ),
     });
 
     const repl = new Repl(context, decorations);
+
+    // Regions of documents which have been processed by HOL Light
+    const checkedRegions = new CheckedRegions(repl, decorations);
+    context.subscriptions.push(checkedRegions);
+
+    // Marks edited executed statements as stale and optionally rolls back the HOL Light state
+    const autoRetraction = new AutoRetraction(repl, decorations, checkedRegions);
+
+    // Steps through tactics of existing proofs
+    const proofStepper = new ProofStepper(repl);
+    context.subscriptions.push(proofStepper);
     // let replTerm: vscode.Terminal | null = null;
     // let holTerminal: terminal.Terminal | null = null;
 
@@ -62,7 +98,8 @@ export function activate(context: vscode.ExtensionContext) {
     const helpProvider = new help.HelpProvider();
 
     // A completion, definition, and hover provider for all HOL Light definition
-    const database = new data.Database(diagnosticCollection, helpProvider, repl, config.getCustomCommandNames());
+    const indexCache = new IndexCache(context.globalStorageUri.fsPath);
+    const database = new data.Database(diagnosticCollection, helpProvider, repl, config.getCustomCommandNames(), indexCache);
 
     // A view for showing search results
     const searchResults = new SearchResults(context);
@@ -118,11 +155,28 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.languages.registerDefinitionProvider(LANG_ID, database)
     );
 
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider(LANG_ID, database)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(LANG_ID, database)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider(LANG_ID, database)
+    );
+
     context.subscriptions.push(
         // Register the completion character '/' for import (needs) completions.
         vscode.languages.registerCompletionItemProvider(LANG_ID, database, '/')
     );
 
+    context.subscriptions.push(
+        // Hypothesis labels are completed after '"'
+        vscode.languages.registerCompletionItemProvider(LANG_ID, new HypothesisCompletionProvider(repl), '"')
+    );
+
     // Register notebook classes
     context.subscriptions.push(
         vscode.workspace.registerNotebookSerializer(
@@ -175,12 +229,34 @@ export function activate(context: vscode.ExtensionContext) {
                     }
                 );
                 decorations.setDecorationStyle(CommandDecorationType.failure, decor);
+            } else if (config.affectsConfiguration(e, config.HIGHLIGHT_COLOR_TIMEOUT)) {
+                const decor = createDecorationType(
+                    context,
+                    { 
+                        highlightColor: config.getConfigOption(config.HIGHLIGHT_COLOR_TIMEOUT, ''),
+                        overviewRulerColor: 'orange',
+                        overviewRulerLane: vscode.OverviewRulerLane.Left,
+                    }
+                );
+                decorations.setDecorationStyle(CommandDecorationType.timeout, decor);
+            } else if (config.affectsConfiguration(e, config.HIGHLIGHT_COLOR_STALE)) {
+                const decor = createDecorationType(
+                    context,
+                    { 
+                        highlightColor: config.getConfigOption(config.HIGHLIGHT_COLOR_STALE, ''),
+                        overviewRulerColor: 'gray',
+                        overviewRulerLane: vscode.OverviewRulerLane.Left,
+                    }
+                );
+                decorations.setDecorationStyle(CommandDecorationType.stale, decor);
             } else if (config.affectsConfiguration(e, config.AUTO_INDEX)) {
                 if (config.getConfigOption(config.AUTO_INDEX, false) && vscode.window.activeTextEditor) {
                     indexDocument(vscode.window.activeTextEditor.document);
                 }
             } else if (config.affectsConfiguration(e, config.CUSTOM_DEFINITIONS, config.CUSTOM_IMPORTS, config.CUSTOM_THEOREMS)) {
                 database.setCustomCommandNames(config.getCustomCommandNames());
+            } else if (config.affectsConfiguration(e, config.INDEX_WORKSPACE, config.WORKSPACE_INDEX_GLOB)) {
+                workspaceIndexer.update();
             }
         })
     );
@@ -188,6 +264,34 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.window.onDidChangeVisibleTextEditors(_editors => {
             decorations.updateDecorations();
+            checkedRegions.updateDecorations();
+            proofStepper.updateDecorations();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.languageId === LANG_ID) {
+                autoRetraction.onDidChangeTextDocument(event).catch(err => {
+                    console.error('Auto retraction failed:', err);
+                    vscode.window.showErrorMessage(`Cannot update executed statements after an edit: ${err}`);
+                });
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.onDidCloseTextDocument(document => {
+            checkedRegions.reset(document.uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.window.onDidCloseTerminal(() => {
+            // Checked regions are not valid when there is no active HOL Light session
+            if (!repl.isActive()) {
+                checkedRegions.reset();
+            }
         })
     );
 
@@ -267,6 +371,20 @@ export function activate(context: vscode.ExtensionContext) {
         indexDocument(vscode.window.activeTextEditor.document);
     }
 
+    // Workspace indexing
+
+    const workspaceIndexer = new WorkspaceIndexer(database);
+    context.subscriptions.push(workspaceIndexer);
+    workspaceIndexer.update();
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => workspaceIndexer.update())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('hol-light.index_workspace', () => workspaceIndexer.scan())
+    );
+
     // Goal view
 
     context.subscriptions.push(
@@ -307,7 +425,7 @@ export function activate(context: vscode.ExtensionContext) {
             } else {
                 const address = await config.getServerAddress({ portOnly: true });
                 if (address) {
-                    if (await repl.startServer(address[1])) {
+                    if (await repl.startServer(address)) {
                         // Decorations are cleared in HolClient after a connection to
                         // a server is established
                         // decorations.removeAllDecorations();
@@ -471,6 +589,51 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('hol-light.assert_to_cursor', async (editor) => {
+            const terminal = await repl.getTerminalWindow({ workDir: pathLib.dirname(editor.document.uri.fsPath) });
+            if (!terminal) {
+                return;
+            }
+            terminal.show(true);
+            checkedRegions.assertToCursor(editor);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('hol-light.retract_to_cursor', (editor) => {
+            checkedRegions.retractToCursor(editor);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerTextEditorCommand('hol-light.step_proof_start', (editor) => {
+            proofStepper.start(editor);
+        }),
+        vscode.commands.registerCommand('hol-light.step_proof_next', () => {
+            proofStepper.next();
+        }),
+        vscode.commands.registerCommand('hol-light.step_proof_back', () => {
+            proofStepper.back();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('hol-light.create_prove_statement', async () => {
+            if (!repl.isActive()) {
+                vscode.window.showErrorMessage('No HOL Light REPL');
+                return;
+            }
+            await createProveStatement(repl);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('hol-light.export_goals', async () => {
+            await exportGoalstateInteractive(repl);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('hol-light.repl_send_break', async () => {
             if (!repl.isActive()) {
@@ -641,7 +804,7 @@ export function activate(context: vscode.ExtensionContext) {
             const cmd = `search([${terms.join('; ')}]);;`;
             if (repl.canExecuteForResult()) {
                 try {
-                    const result = await repl.executeForResult(cmd);
+                    const result = await repl.executeForResult(cmd, { silent: true, query: true, concurrent: true });
                     searchResults.updateSearchResults(result, { reveal: true });
                 } catch (err) {
                     // console.log(`search error: ${err}`);
@@ -658,9 +821,16 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('hol-light.show_slowest_statements', () => {
+            const editor = vscode.window.activeTextEditor;
+            showSlowestStatements(repl.timings, editor?.document.languageId === LANG_ID ? editor.document.uri : undefined);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerTextEditorCommand('hol-light.jump_to_highlighting', (editor) => {
-            const range = decorations.getLatestHighlightedRange([CommandDecorationType.failure, CommandDecorationType.success, CommandDecorationType.pending], editor.document.uri);
+            const range = decorations.getLatestHighlightedRange([CommandDecorationType.failure, CommandDecorationType.timeout, CommandDecorationType.success, CommandDecorationType.pending], editor.document.uri);
             if (range) {
                 const pos = range.end;
                 editor.selection = new vscode.Selection(pos, pos);
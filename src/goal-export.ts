@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+
+import { PLAIN_GOALSTATE_QUERY } from './goal-view';
+import { Repl } from './repl';
+import type { Goal, Goalstate } from './types';
+
+export type ExportFormat = 'markdown' | 'latex';
+
+// HOL Light operators with their Unicode and LaTeX equivalents
+const SYMBOLS: [string, string, string][] = [
+    ['==>', '⇒', '\\Rightarrow'],
+    ['<=>', '⇔', '\\Leftrightarrow'],
+    ['/\\', '∧', '\\land'],
+    ['\\/', '∨', '\\lor'],
+    ['?!', '∃!', '\\exists!'],
+    ['<=', '≤', '\\le'],
+    ['>=', '≥', '\\ge'],
+    ['~', '¬', '\\lnot'],
+    ['!', '∀', '\\forall'],
+    ['?', '∃', '\\exists'],
+    ['@', 'ε', '\\varepsilon'],
+    ['\\', 'λ', '\\lambda'],
+    ['IN', '∈', '\\in'],
+    ['SUBSET', '⊆', '\\subseteq'],
+    ['INTER', '∩', '\\cap'],
+    ['UNION', '∪', '\\cup'],
+];
+
+const symbolRe = new RegExp(
+    '"(?:\\\\.|[^"\\\\])*"|' + SYMBOLS.map(([s]) =>
+        /\w/.test(s) ? `(?<![\\w'])${s}(?![\\w'])` : s.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&')
+    ).join('|'),
+    'g'
+);
+
+// eslint-disable-next-line no-control-regex
+const ansiRe = /\x1b\[[\d;]*m/g;
+
+/**
+ * Replaces HOL Light operators with Unicode symbols or LaTeX commands.
+ * String literals are not changed. Other parts of the term are transformed
+ * with the escape function (only for LaTeX).
+ */
+export function substituteSymbols(term: string, target: 'unicode' | 'latex', escape: (text: string) => string = s => s): string {
+    let result = '';
+    let last = 0;
+    for (const m of term.matchAll(symbolRe)) {
+        result += escape(term.slice(last, m.index));
+        const symbol = SYMBOLS.find(([s]) => s === m[0]);
+        result += !symbol ? escape(m[0]) : target === 'unicode' ? symbol[1] : `$${symbol[2]}$`;
+        last = m.index + m[0].length;
+    }
+    return result + escape(term.slice(last));
+}
+
+function escapeLatex(text: string): string {
+    return text.replace(/[\\{}_^&%$#~<>|]/g, c => {
+        switch (c) {
+            case '\\': return '\\textbackslash{}';
+            case '^': return '\\textasciicircum{}';
+            case '~': return '\\textasciitilde{}';
+            case '<': return '\\textless{}';
+            case '>': return '\\textgreater{}';
+            case '|': return '\\textbar{}';
+            default: return '\\' + c;
+        }
+    });
+}
+
+function goalTitle(goalstate: Goalstate, i: number): string {
+    return goalstate.goals.length > 1 ? `Goal ${i + 1} of ${goalstate.goals.length}` : 'Goal';
+}
+
+function markdownGoal(goal: Goal, symbols: boolean): string {
+    const term = (text: string) => {
+        text = text.replace(ansiRe, '').trim();
+        return '`' + (symbols ? substituteSymbols(text, 'unicode') : text) + '`';
+    };
+    const lines = goal.hypotheses.map((hyp, i) => {
+        const label = hyp.label ? ` (${hyp.label})` : '';
+        return `${i.toString().padStart(3)} [${term(hyp.term).replace(/\n/g, '\n      ')}]${label}`;
+    });
+    if (lines.length) {
+        lines.push('');
+    }
+    lines.push(term(goal.term));
+    return '```\n' + lines.join('\n') + '\n```';
+}
+
+function latexGoal(goal: Goal, symbols: boolean): string {
+    const term = (text: string) => {
+        text = text.replace(ansiRe, '').trim().replace(/\s+/g, ' ');
+        return '\\texttt{' + (symbols ? substituteSymbols(text, 'latex', escapeLatex) : escapeLatex(text)) + '}';
+    };
+    const rows = goal.hypotheses.map((hyp, i) => {
+        const label = hyp.label ? `(${escapeLatex(hyp.label)}) ` : '';
+        return `  \\texttt{${label}${i}} & ${term(hyp.term)} \\\\`;
+    });
+    if (rows.length) {
+        rows.push('  \\hline');
+    }
+    rows.push(`  & ${term(goal.term)} \\\\`);
+    return '\\begin{tabular}{@{}r@{\\quad}l@{}}\n' + rows.join('\n') + '\n\\end{tabular}';
+}
+
+/**
+ * Converts a goal state to Markdown or LaTeX. If symbols is true then HOL Light
+ * operators are replaced with Unicode symbols (Markdown) or LaTeX commands (LaTeX).
+ */
+export function exportGoalstate(goalstate: Goalstate, format: ExportFormat, symbols: boolean): string {
+    if (!goalstate.goals.length) {
+        return format === 'markdown' ? 'No goals\n' : '% No goals\n';
+    }
+    const parts = goalstate.goals.map((goal, i) =>
+        format === 'markdown'
+            ? `**${goalTitle(goalstate, i)}**\n\n${markdownGoal(goal, symbols)}`
+            : `\\paragraph{${goalTitle(goalstate, i)}}\n\n${latexGoal(goal, symbols)}`
+    );
+    return parts.join('\n\n') + '\n';
+}
+
+/**
+ * Exports a goal state to the clipboard or to a new untitled document.
+ * If the goal state is not given then the current goal state is requested from the server.
+ */
+export async function exportGoalstateInteractive(repl: Repl, goalstate?: Goalstate) {
+    if (!goalstate) {
+        if (!repl.canExecuteForResult()) {
+            vscode.window.showErrorMessage('Start a HOL Light server to export goals');
+            return;
+        }
+        try {
+            const result = await repl.executeForResult(PLAIN_GOALSTATE_QUERY, { silent: true, evalAsString: true, query: true });
+            goalstate = JSON.parse(result) as Goalstate;
+        } catch (err) {
+            vscode.window.showErrorMessage(`Cannot get the goal state: ${err}`);
+            return;
+        }
+    }
+
+    const formats: (vscode.QuickPickItem & { format: ExportFormat, symbols: boolean })[] = [
+        { label: 'Markdown', format: 'markdown', symbols: false },
+        { label: 'Markdown', description: 'Unicode symbols', format: 'markdown', symbols: true },
+        { label: 'LaTeX', format: 'latex', symbols: false },
+        { label: 'LaTeX', description: 'LaTeX symbols', format: 'latex', symbols: true },
+    ];
+    const choice = await vscode.window.showQuickPick(formats, { title: 'Export goals' });
+    if (!choice) {
+        return;
+    }
+    const text = exportGoalstate(goalstate, choice.format, choice.symbols);
+
+    const documentItem = 'Open in a new document';
+    const copyItem = 'Copy to the clipboard';
+    const target = await vscode.window.showQuickPick([documentItem, copyItem], { title: 'Export goals' });
+    if (target === documentItem) {
+        const document = await vscode.workspace.openTextDocument({
+            language: choice.format,
+            content: text,
+        });
+        await vscode.window.showTextDocument(document);
+    } else if (target === copyItem) {
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.showInformationMessage('Goals have been copied to the clipboard');
+    }
+}
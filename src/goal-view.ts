@@ -1,13 +1,41 @@
 import * as vscode from 'vscode';
 import { Repl } from './repl';
-import type { Goalstate, GoalviewMessage, GoalviewState, MessageCommands } from './types';
+import type { GoalAction, GoalHistoryInfo, Goalstate, GoalviewMessage, GoalviewState, MessageCommands, ProofTreeNode, SourceLocation } from './types';
 import { InterruptedError, CancelledError } from './executor';
 import { cancelPreviousCall } from './util';
 import { Database } from './database';
 import { DefinitionType } from './parser';
+import { buildProofTree, toSourceLocation } from './proof-tree';
+import { ProofStep } from './proof-history';
+import { exportGoalstateInteractive } from './goal-export';
 
 const VIEW_TYPE = 'goalView';
+const LANG_ID = 'hol-light-ocaml';
 const SAVED_STATE_KEY = 'goalviewState';
+const MAX_HISTORY_LENGTH = 100;
+
+/**
+ * Returns a query which prints the current goal state as JSON with the given goal options
+ * (e.g., `color = false`).
+ */
+function goalstateQuery(options: string[] = []): string {
+    const optionsStr = options.length
+        ? `{Hol_light_json.goal_default_options with ${options.join('; ')} }`
+        : 'Hol_light_json.goal_default_options';
+    return `Hol_light_json.json_of_top_goalstate ~options:${optionsStr}`;
+}
+
+// The goal state without ANSI color codes
+export const PLAIN_GOALSTATE_QUERY = goalstateQuery(['color = false']);
+
+interface HistoryEntry {
+    goalstate: Goalstate;
+    // The JSON text of the goal state (used for detecting changes)
+    text: string;
+    proofTree?: ProofTreeNode;
+    // The last proof step before the goal state
+    step?: ProofStep;
+}
 
 function getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
     return {
@@ -49,6 +77,12 @@ export class GoalViewPanel {
     // TODO: it is not clear how to determine the initial location.
     private location?: vscode.Location;
 
+    // Goal states displayed in the view. The last entry is the live goal state.
+    private history: HistoryEntry[] = [];
+    // The index of the displayed history entry (undefined if the live goal state is displayed)
+    private historyIndex?: number;
+    private printTypes = 1;
+
     public static createOrShow(context: vscode.ExtensionContext, repl: Repl, database: Database) {
         const column = vscode.window.activeTextEditor ? vscode.ViewColumn.Beside : vscode.ViewColumn.Two;
         if (GoalViewPanel.currentPanel) {
@@ -128,21 +162,32 @@ export class GoalViewPanel {
                 if (goalOptions.maxHypBoxes !== undefined) {
                     options.push(`max_hyp_boxes = ${goalOptions.maxHypBoxes}`);
                 }
+                if (goalOptions.spans) {
+                    options.push('spans = true');
+                }
             }
-            const optionsStr = options.length
-                ? `{Hol_light_json.goal_default_options with ${options.join('; ')} }`
-                : 'Hol_light_json.goal_default_options';
             const goalstate = await this.repl.executeForResult(
-                `Hol_light_json.json_of_top_goalstate ~options:${optionsStr}`, 
-                { silent: true, evalAsString: true },
+                goalstateQuery(options),
+                { silent: true, evalAsString: true, query: true },
                 cancellationToken
             );
             const printTypes = await this.repl.executeForResult(
                 'string_of_int !print_types_of_subterms', 
-                { silent: true, evalAsString: true },
+                { silent: true, evalAsString: true, query: true },
                 cancellationToken
             );
-            this.updateGoalview(JSON.parse(goalstate) as Goalstate, +printTypes);
+            let proofTree: ProofTreeNode | undefined;
+            if (goalOptions?.proofTree) {
+                const transitions = await this.repl.executeForResult(
+                    'Hol_light_json.json_of_goalstack_transitions ()',
+                    { silent: true, evalAsString: true, query: true },
+                    cancellationToken
+                );
+                proofTree = buildProofTree(JSON.parse(transitions) as number[][], this.repl.getProofHistory());
+            }
+            this.printTypes = +printTypes;
+            this.addHistoryEntry(goalstate, proofTree);
+            this.updateGoalview();
         } catch (e) {
             if (e instanceof CancelledError) {
                 // console.log('goal view refresh cancelled');
@@ -173,12 +218,61 @@ export class GoalViewPanel {
         } satisfies GoalviewMessage<'restore'>);
     }
 
-    private updateGoalview(goalstate: Goalstate, printTypes: number) {
+    private addHistoryEntry(text: string, proofTree?: ProofTreeNode) {
+        const step = this.repl.getProofHistory().at(-1);
+        const entry: HistoryEntry = { goalstate: JSON.parse(text) as Goalstate, text, proofTree, step };
+        const last = this.history.at(-1);
+        if (last && (last.text === text || (step && last.step === step))) {
+            // The same goal state (possibly, printed with different options)
+            this.history[this.history.length - 1] = entry;
+        } else {
+            this.history.push(entry);
+            if (this.history.length > MAX_HISTORY_LENGTH) {
+                this.history.shift();
+            }
+        }
+        this.historyIndex = undefined;
+    }
+
+    private focusGoal(index: number) {
+        if (index <= 0 || this.historyIndex !== undefined || !this.repl.isActive()) {
+            return;
+        }
+        this.repl.execute(`r(${index});;`, { proofCommand: 'r' });
+        this.refresh();
+    }
+
+    private moveInHistory(delta: number) {
+        if (!this.history.length) {
+            return;
+        }
+        const last = this.history.length - 1;
+        const index = Math.max(0, Math.min((this.historyIndex ?? last) + delta, last));
+        this.historyIndex = index === last ? undefined : index;
+        this.updateGoalview();
+    }
+
+    private updateGoalview() {
+        const index = this.historyIndex ?? this.history.length - 1;
+        const entry = this.history[index];
+        if (!entry) {
+            return;
+        }
+        const history: GoalHistoryInfo = {
+            index,
+            length: this.history.length,
+            live: this.historyIndex === undefined,
+            tactic: entry.step && `${entry.step.command}(${entry.step.argument})`,
+            location: entry.step?.location && toSourceLocation(entry.step.location),
+        };
         this.panel.webview.postMessage({
             command: 'update',
             data: {
-                goalstate: goalstate,
-                printTypes: printTypes,
+                goalstate: entry.goalstate,
+                printTypes: this.printTypes,
+                proofTree: entry.proofTree,
+                previousGoalstate: this.goalviewState.options.showDiff ? this.history[index - 1]?.goalstate : undefined,
+                history,
             },
         } satisfies GoalviewMessage<'update'>);
     }
@@ -213,6 +307,75 @@ export class GoalViewPanel {
         } satisfies GoalviewMessage<'constant-info'>);
     }
 
+    private async revealLocation(location: SourceLocation) {
+        const range = new vscode.Range(...location.range);
+        const visibleEditor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === location.uri);
+        const editor = await vscode.window.showTextDocument(vscode.Uri.parse(location.uri), {
+            viewColumn: visibleEditor?.viewColumn ?? vscode.ViewColumn.One,
+            selection: range,
+        });
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    // Returns the editor where tactics should be inserted
+    private getTargetEditor(): vscode.TextEditor | undefined {
+        const editors = vscode.window.visibleTextEditors;
+        return vscode.window.activeTextEditor
+            ?? editors.find(editor => editor.document.uri.toString() === this.location?.uri.toString())
+            ?? editors.find(editor => editor.document.languageId === LANG_ID);
+    }
+
+    private async insertSnippet(snippet: vscode.SnippetString) {
+        const editor = this.getTargetEditor();
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor');
+            return;
+        }
+        const shown = await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+        await shown.insertSnippet(snippet);
+    }
+
+    private async performGoalAction(action: GoalAction) {
+        // Actions which depend on the current goal state are not available for history entries
+        if (action.kind !== 'copy-term' && action.kind !== 'insert-term' && this.historyIndex !== undefined) {
+            return;
+        }
+        // Terms are printed on several lines
+        const term = '`' + action.term.trim().replace(/\s+/g, ' ') + '`';
+        switch (action.kind) {
+            case 'use-then': {
+                if (action.label) {
+                    const snippet = new vscode.SnippetString(`USE_THEN "${action.label}" `);
+                    await this.insertSnippet(snippet.appendPlaceholder('MP_TAC'));
+                }
+                break;
+            }
+            case 'spec-then': {
+                // Suggest the first bound variable of a universally quantified term
+                const variable = action.term.trim().match(/^(?:!|\u2200)\s*([a-z_][\w']*)/i)?.[1] ?? 'x';
+                const snippet = new vscode.SnippetString('FIRST_X_ASSUM(MP_TAC o SPEC `');
+                await this.insertSnippet(snippet.appendPlaceholder(variable).appendText('`)'));
+                break;
+            }
+            case 'remove-then': {
+                if (action.label && this.repl.isActive()) {
+                    this.repl.execute(`e(REMOVE_THEN "${action.label}" MP_TAC);;`, { proofCommand: 'e' });
+                    this.refresh();
+                }
+                break;
+            }
+            case 'copy-term': {
+                await vscode.env.clipboard.writeText(term);
+                vscode.window.showInformationMessage('The term has been copied to the clipboard');
+                break;
+            }
+            case 'insert-term': {
+                await this.insertSnippet(new vscode.SnippetString().appendText(term));
+                break;
+            }
+        }
+    }
+
     private getHtmlForWebview(webview: vscode.Webview) {
         const scriptUri = webview.asWebviewUri(
             vscode.Uri.joinPath(this.extensionContext.extensionUri, 'goalview', 'dist', 'index.js')
@@ -265,6 +428,27 @@ export class GoalViewPanel {
                         this.provideConstantInfo(message.data.id, message.data.text);
                         break;
                     }
+                    case 'reveal-location': {
+                        this.revealLocation(message.data);
+                        break;
+                    }
+                    case 'history': {
+                        this.moveInHistory(message.data | 0);
+                        break;
+                    }
+                    case 'goal-action': {
+                        this.performGoalAction(message.data);
+                        break;
+                    }
+                    case 'focus-goal': {
+                        this.focusGoal(message.data | 0);
+                        break;
+                    }
+                    case 'export-goals': {
+                        const entry = this.history[this.historyIndex ?? this.history.length - 1];
+                        exportGoalstateInteractive(this.repl, entry?.goalstate);
+                        break;
+                    }
                 }
             },
             undefined,
@@ -4,14 +4,46 @@ import * as net from 'node:net';
 
 import * as config from './config';
 import { CommandDecorations, CommandDecorationType } from './decoration';
-import { Executor, CommandOptions, ProofCommand, InterruptedError, CancelledError } from './executor';
+import { Executor, CommandOptions, ProofCommand, InterruptedError, CancelledError, TimeoutError } from './executor';
+import { ProofStep, getProofCommandArgument } from './proof-history';
 import { Repl } from './repl';
 import { colorText, Terminal } from './terminal';
+import { timingHoverMessage } from './timing';
 
 const LINE_END = '\n';
 
+// The version of the JSON-lines protocol. It should be equal to Server2.protocol_version.
+export const PROTOCOL_VERSION = 1;
+
+// Structured information about an evaluation error
+export interface ErrorInfo {
+    file: string | null,
+    // [start line, start character, end line, end character]. Lines are 1-based, characters are 0-based.
+    range: [number, number, number, number] | null,
+    kind: 'parse' | 'type' | 'failure' | 'exception',
+    message: string,
+}
+
+// Messages of the JSON-lines protocol.
+// Every message carries the id of the corresponding command (null if there is no such command).
+// Server messages also carry the channel name: 'main' for regular commands and 'query' for
+// read-only queries which do not wait for regular commands in the queue.
+
+export type ServerMessage =
+    | { id: null, channel: 'main', type: 'hello', data: { version: number, pid: number, interrupt: boolean } }
+    | { id: number | null, channel: 'main', type: 'ready', data: { subgoals?: [number, number] } }
+    | { id: number | null, channel: 'main', type: 'stdout' | 'stderr' | 'result' | 'error' | 'timeout', data: string }
+    | { id: number | null, channel: 'main', type: 'diagnostic', data: ErrorInfo }
+    | { id: number | null, channel: 'main', type: 'timing', data: { wall: number, cpu: number } }
+    | { id: number, channel: 'query', type: 'result' | 'error' | 'timeout', data: string };
+
+export type ClientMessage =
+    | { id: number, type: 'eval' | 'query', data: { input: string, args: { [name: string]: string | boolean } } }
+    | { id: number, type: 'cancel' }
+    | { id: number | null, type: 'interrupt' };
+
 // Corresponds to Bytes.unsafe_escape
-function escapeString(s: string): string {
+export function escapeString(s: string): string {
     return s.replace(/["\\]|[^ -~]/g, m => {
         switch (m) {
             case '\"': return '\\"';
@@ -27,7 +59,7 @@ function escapeString(s: string): string {
     });
 }
 
-function unescapeString(s: string): string {
+export function unescapeString(s: string): string {
     return s.replace(/\\(\d+)|\\(.)/g, (_, n, x) => {
         if (n) {
             return String.fromCharCode(+n);
@@ -51,10 +83,59 @@ const fixErrorLocation = (s: string, location: vscode.Location) =>
         return `File "${location.uri.fsPath}", line ${newLine}, characters ${newStart}-${newEnd}`;
     });
 
+// Converts an error range reported by the server into a document range
+function getErrorRange(error: ErrorInfo, location: vscode.Location): vscode.Range {
+    if (!error.range) {
+        return location.range;
+    }
+    const [startLine, startChar, endLine, endChar] = error.range;
+    const start = location.range.start;
+    // If the server does not report the file from the line directive
+    // then lines are counted from the line directive
+    const lineOffset = error.file === location.uri.fsPath ? -1 : start.line - 2;
+    const toPosition = (line: number, char: number) => {
+        const docLine = Math.max(start.line, line + lineOffset);
+        return new vscode.Position(docLine, docLine === start.line ? char + start.character : char);
+    };
+    return new vscode.Range(toPosition(startLine, startChar), toPosition(endLine, endChar));
+}
+
 const fixLineBreaks = (s: string) => s.replace(/\r*\n/g, '\r\n');
 
+// Returns server arguments of a command as pairs [name, value]. The value is undefined for flags.
+function getCommandArgs(command: Command): [string, string?][] {
+    const args: [string, string?][] = [];
+    if (command.silent) {
+        args.push(['silent']);
+    }
+    if (command.evalAsString) {
+        args.push(['string']);
+    }
+    if (command.concurrent) {
+        args.push(['concurrent']);
+    }
+    if (command.timeout) {
+        args.push(['timeout', `${command.timeout}`]);
+    }
+    return args;
+}
+
+// Tactics are executed with the default tactic timeout if no timeout is given
+function getCommandTimeout(options?: CommandOptions): number | undefined {
+    if (options?.timeout !== undefined) {
+        return options.timeout > 0 ? options.timeout : undefined;
+    }
+    if (options?.proofCommand === 'e' || options?.proofCommand === 'er') {
+        const timeout = config.getConfigOption(config.TACTIC_TIMEOUT, 0);
+        return timeout > 0 ? timeout : undefined;
+    }
+}
+
+const jsonArgs = (args: [string, string?][]) =>
+    Object.fromEntries(args.map(([name, value]) => [name, value ?? true]));
+
 class Command {
-    // Currently command ids are not used
+    // Command ids are used for matching server messages with commands (JSON-lines protocol only)
     private static counter: number = 0;
     readonly cmdId: number;
 
@@ -65,8 +146,11 @@ class Command {
     echoInput = true;
     readonly silent: boolean;
     readonly evalAsString: boolean;
+    readonly concurrent: boolean;
     readonly interactive: boolean;
     readonly cmd: string;
+    // Timeout in seconds
+    readonly timeout?: number;
 
     // Location for providing feedback
     readonly location?: vscode.Location;
@@ -75,6 +159,9 @@ class Command {
     // Used for recovering text highlights of the previous tactics when b()ed.
     readonly proofCommand?: ProofCommand;
 
+    // Execution time reported by the server (in seconds)
+    timing?: { wall: number, cpu: number };
+
     progressResolve?: () => void;
 
     constructor(cmd: string, options?: CommandOptions) {
@@ -83,8 +170,10 @@ class Command {
         this.location = options?.location;
         this.silent = options?.silent ?? false;
         this.evalAsString = options?.evalAsString ?? false;
+        this.concurrent = options?.concurrent ?? false;
         this.interactive = options?.interactive ?? false;
         this.proofCommand = options?.proofCommand;
+        this.timeout = getCommandTimeout(options);
     }
 
     clear(decorations: CommandDecorations, _reason?: Error) {
@@ -121,32 +210,58 @@ class CommandWithResult extends Command {
     }
 }
 
+// The part of Repl used by HolClient
+export type HolClientRepl = Pick<Repl, 'timings' | 'getServerToken' | 'storeServerToken' | 'deleteServerToken' | 'createHolClientTerminal'>;
+
 export class HolClient extends Terminal implements Executor {
-    private repl: Repl;
+    private repl: HolClientRepl;
 
-    private host: string;
-    private port: number;
+    private address: config.ServerAddress;
 
     private echoInput = true;
 
     private decorations: CommandDecorations;
 
+    // Errors reported by the server for commands with locations
+    private diagnostics: vscode.DiagnosticCollection;
+
     private commandQueue: Command[] = [];
     private currentCommand?: Command;
 
+    // Queries sent to the server through the query channel (JSON-lines protocol only).
+    // The server evaluates queries between regular commands.
+    private pendingQueries = new Map<number, CommandWithResult>();
+    // Queries which wait until the commands queued before them are sent to the server.
+    // For example, a goal view refresh after a tactic should return the goal state after this tactic.
+    private heldQueries: { query: CommandWithResult, commands: Command[] }[] = [];
+
     // A history of locations of executed tactic strings for text highlighting
     private tacticLocHistory: Array<vscode.Location | undefined> = [];
 
+    // Successful proof commands since the last goal (including reverted steps)
+    private proofHistory: ProofStep[] = [];
+    // The last proof step which is waiting for the number of goals from the ready message
+    private pendingProofStep?: ProofStep;
+
     private socket?: net.Socket;
     private serverPid?: number;
     private canBeInterrupted: boolean = false;
     private readyFlag = false;
+    private suppressPrompt = false;
+
+    // The legacy line-prefix protocol is used until the server accepts a handshake request.
+    private protocol: 'legacy' | 'json' = 'legacy';
+    private handshakePending = false;
 
-    constructor(host: string, port: number, decorations: CommandDecorations, repl: Repl) {
+    // The server requires an authentication token before accepting any other input.
+    // The protocol handshake is sent after a successful authentication.
+    private authPending?: { token: string, protocolVersion?: number };
+
+    constructor(address: config.ServerAddress, decorations: CommandDecorations, diagnostics: vscode.DiagnosticCollection, repl: HolClientRepl) {
         super();
-        this.host = host;
-        this.port = port;
+        this.address = address;
         this.decorations = decorations;
+        this.diagnostics = diagnostics;
         this.repl = repl;
     }
 
@@ -154,12 +269,24 @@ export class HolClient extends Terminal implements Executor {
         return true;
     }
 
+    // Locations of tactics which produced the current goal state
+    getTacticHistory(): readonly (vscode.Location | undefined)[] {
+        return this.tacticLocHistory;
+    }
+
+    getProofHistory(): readonly ProofStep[] {
+        return this.proofHistory;
+    }
+
     private clearCommands(rejectReason: Error) {
         this.currentCommand?.clear(this.decorations, rejectReason);
         this.commandQueue.forEach(command => command.clear(this.decorations, rejectReason));
         this.commandQueue.length = 0;
         this.tacticLocHistory = [];
+        this.proofHistory = [];
+        this.pendingProofStep = undefined;
         this.currentCommand = undefined;
+        this.sendHeldQueries();
     }
 
     override open(_initialDimensions: vscode.TerminalDimensions | undefined): void {
@@ -167,10 +294,15 @@ export class HolClient extends Terminal implements Executor {
             this.close();
         }
 
-        this.socket = net.connect(this.port, this.host);
+        this.socket = 'path' in this.address
+            ? net.connect({ path: this.address.path })
+            : net.connect(this.address.port, this.address.host);
         this.socket.on('connect', () => {
             console.log('client connected');
             this.decorations.removeAllDecorations();
+            this.diagnostics.clear();
+            // Timings of the previous session are not relevant for a new server session
+            this.repl.timings.clear();
         });
         this.socket.on('close', (hadError) => {
             console.log('HolClient: connection closed');
@@ -180,16 +312,17 @@ export class HolClient extends Terminal implements Executor {
         this.socket.on('error', async (err) => {
             console.log(`HolClient: connection error: ${err}`);
             // (err as any).code is required for AggregateError on Mac
-            if (/ECONNREFUSED/.test(err.message + (err as any).code)) {
+            // ENOENT is reported when a Unix domain socket file does not exist
+            if (/ECONNREFUSED|ENOENT/.test(err.message + (err as any).code)) {
                 const tryAgain = 'Try again';
                 const changeAddress = 'Change server address...';
                 const res = await vscode.window.showErrorMessage(`Connection error`, tryAgain, changeAddress);
                 if (res === tryAgain) {
-                    this.repl.createHolClientTerminal(this.host, this.port, true);
+                    this.repl.createHolClientTerminal(this.address, true);
                 } else if (res === changeAddress) {
                     const address = await config.getServerAddress({ showInputBox: true });
                     if (address) {
-                        config.updateConfigOption(config.SERVER_ADDRESS, address.join(':'));
+                        config.updateConfigOption(config.SERVER_ADDRESS, config.formatServerAddress(address));
                     }
                 }
             } else {
@@ -198,10 +331,9 @@ export class HolClient extends Terminal implements Executor {
         });
 
         let output: string[] = [];
-        let suppressPrompt = false;
 
-        this.socket.on('data', (data: Buffer) => {
-            const out = data.toString();
+        this.socket.setEncoding('utf8');
+        this.socket.on('data', (out: string) => {
             // console.log(`out: "${out}"`);
             // this.writeEmitter.fire(fixLineBreaks(out));
 
@@ -213,131 +345,11 @@ export class HolClient extends Terminal implements Executor {
             // Process complete lines
             for (let i = 0; i < output.length - 1; i++) {
                 const line = output[i];
-                if (line.startsWith('ready:')) {
-                    const readyInfo = unescapeString(line.slice(6));
-                    if (!suppressPrompt) {
-                        const subgoals = readyInfo.match(/subgoals:(\d+),(\d+)/);
-                        let msg = '';
-                        if (subgoals) {
-                            msg = `${subgoals[1]} subgoal${subgoals[1] === '1' ? '' : 's'} (${subgoals[2]} total) `;
-                        }
-                        this.setPrompt(colorText(msg, 'blue') + '# ');
-                        this.showPrompt();
-                    }
-                    suppressPrompt = false;
-                    this.currentCommand?.clear(this.decorations);
-                    this.currentCommand = undefined;
-                    this.readyFlag = true;
-                    this.executeNextCommand();
-                    if (this.readyFlag && !this.isInputEmpty()) {
-                        // If there is some input in the terminal then restore it.
-                        this.clearPrompt();
-                        this.restoreInput(true);
-                    }
-                } else if (line.startsWith('info:')) {
-                    const serverInfo = unescapeString(line.slice(5)).split(';');
-                    for (const info of serverInfo) {
-                        let m = info.match(/^pid:(\d+)$/);
-                        if (m) {
-                            this.serverPid = +m[1];
-                        }
-                        m = info.match(/^interrupt:(.+)$/);
-                        if (m) {
-                            this.canBeInterrupted = m[1] === 'true';
-                        }
-                    }
-                    // console.log(`info: ${line}, pid = ${this.serverPid}`);
-                } else if (line.startsWith('stdout:')) {
-                    if (this.currentCommand && !this.currentCommand.silent) {
-                        // this.writeEmitter.fire('stdout: ');
-                        this.write(fixLineBreaks(unescapeString(line.slice(7))));
-                    }
-                } else if (line.startsWith('stderr:')) {
-                    if (this.currentCommand && !this.currentCommand.silent) {
-                        // this.writeEmitter.fire('stderr: ');
-                        let text = fixLineBreaks(unescapeString(line.slice(7)));
-                        if (this.currentCommand?.location) {
-                            text = fixErrorLocation(text, this.currentCommand.location);
-                        }
-                        this.write(colorText(text, 'red'));
-                    }
-                } else if (line.startsWith('result:') || line.startsWith('rerror:')) {
-                    const result = unescapeString(line.slice(7));
-                    const err = line.startsWith('rerror:');
-                    if (this.currentCommand && !this.currentCommand.silent) {
-                        // this.writeEmitter.fire('result: ');
-                        let text = fixLineBreaks(unescapeString(line.slice(7)));
-                        if (err && this.currentCommand?.location) {
-                            text = fixErrorLocation(text, this.currentCommand.location);
-                        }
-                        this.write(colorText(text, err ? 'red' : 'default'));
-                        this.markExecutionFinished(err);
-                    } else {
-                        suppressPrompt = this.currentCommand ? true : false;
-                    }
-                    if (this.currentCommand) {
-                        const command = this.currentCommand;
-                        this.currentCommand = undefined;
-                        command.progressResolve?.();
-
-                        if (command.location) {
-                            if (!err) {
-                                // If there is no error, remove the previous failure highlight.
-                                this.decorations.clear(CommandDecorationType.failure, command.location.uri);
-                            }
-                            this.decorations.setRange(err ? CommandDecorationType.failure : CommandDecorationType.success, command.location);
-                        }
-
-                        // If the command manipulates the goal state, let's properly update the
-                        // history of tactic. Also, if the command is "b();;", let's highlight
-                        // the previous tactic.
-                        if (command.proofCommand && !err) {
-                            switch (command.proofCommand) {
-                                case 'g':
-                                    // Reset tactic queue
-                                    this.tacticLocHistory = [];
-                                    break;
-                                case 'e':
-                                    this.tacticLocHistory.push(command.location);
-                                    break;
-                                case 'er':
-                                    this.tacticLocHistory.push(command.location);
-                                    break;
-                                case 'b':
-                                    this.tacticLocHistory.pop();
-                                    // lastTacticLoc is undefined if there is no more tactic
-                                    // to backtrace or the tactic was not associated with any
-                                    // actual text in the editor
-                                    const lastTacticLoc = this.tacticLocHistory.at(-1);
-                                    // If this "b();;" also had a location, this will cause
-                                    // doubly highlighting "b();;" as well as the previous
-                                    // tactic text. Avoid this because it will look
-                                    // ugly.
-                                    if (lastTacticLoc && !command.location) {
-                                        this.decorations.addRange(
-                                            CommandDecorationType.success,
-                                            lastTacticLoc);
-                                    }
-                                    break;
-                                case 'r':
-                                    // There is nothing that needs to be done for highlighting.
-                                    break;
-                            }
-                        }
-
-                        if (command instanceof CommandWithResult) {
-                            if (command.cancellationToken?.isCancellationRequested) {
-                                command.reject(new CancelledError('Cancelled'));
-                            } else if (err) {
-                                command.reject(new Error(command.location ? fixErrorLocation(result, command.location) : result));
-                            } else {
-                                command.resolve(result);
-                            }
-                        }
-                        if (err && command.groupId) {
-                            this.cancelCommands(command.groupId);
-                        }
-                    }
+                // Legacy messages never start with '{'
+                if (this.protocol === 'json' || (this.handshakePending && line.startsWith('{'))) {
+                    this.processJsonMessage(line);
+                } else {
+                    this.processLegacyMessage(line);
                 }
             }
 
@@ -347,19 +359,362 @@ export class HolClient extends Terminal implements Executor {
         });
     }
 
+    private processLegacyMessage(line: string) {
+        if (line.startsWith('ready:')) {
+            if (this.handshakePending) {
+                // The server sends this message before reading the handshake request
+                return;
+            }
+            const readyInfo = unescapeString(line.slice(6));
+            const subgoals = readyInfo.match(/subgoals:(\d+),(\d+)/);
+            this.processReady(subgoals ? [+subgoals[1], +subgoals[2]] : undefined);
+        } else if (line.startsWith('info:')) {
+            const serverInfo = unescapeString(line.slice(5)).split(';');
+            let protocolVersion: number | undefined;
+            let authRequired = false;
+            for (const info of serverInfo) {
+                let m = info.match(/^pid:(\d+)$/);
+                if (m) {
+                    this.serverPid = +m[1];
+                }
+                m = info.match(/^interrupt:(.+)$/);
+                if (m) {
+                    this.canBeInterrupted = m[1] === 'true';
+                }
+                m = info.match(/^protocol:(\d+)$/);
+                if (m) {
+                    protocolVersion = +m[1];
+                }
+                m = info.match(/^auth:(.+)$/);
+                if (m) {
+                    authRequired = m[1] === 'true';
+                }
+            }
+            // console.log(`info: ${line}, pid = ${this.serverPid}`);
+            if (authRequired) {
+                this.authenticate(protocolVersion).catch(err => {
+                    console.log(`HolClient: authentication error: ${err}`);
+                    this.socket?.destroy();
+                });
+            } else {
+                this.startHandshake(protocolVersion);
+            }
+        } else if (line.startsWith('stdout:')) {
+            this.processOutput(unescapeString(line.slice(7)), false);
+        } else if (line.startsWith('stderr:')) {
+            this.processOutput(unescapeString(line.slice(7)), true);
+        } else if (line.startsWith('result:') || line.startsWith('rerror:')) {
+            const result = unescapeString(line.slice(7));
+            if (this.authPending) {
+                this.processAuthResult(result, line.startsWith('rerror:'));
+                return;
+            }
+            if (this.handshakePending) {
+                // The server rejected the handshake request
+                console.log(`HolClient: protocol handshake failed: ${result}`);
+                this.handshakePending = false;
+                return;
+            }
+            this.processResult(result, line.startsWith('rerror:'));
+        }
+    }
+
+    private startHandshake(protocolVersion?: number) {
+        if (protocolVersion === PROTOCOL_VERSION) {
+            this.handshakePending = true;
+            this.socket?.write(escapeString(`$protocol=json;version=${PROTOCOL_VERSION}$`) + LINE_END);
+        } else if (protocolVersion !== undefined) {
+            console.log(`HolClient: unsupported protocol version ${protocolVersion}: using the legacy protocol`);
+        }
+    }
+
+    private async authenticate(protocolVersion?: number) {
+        const token = await this.repl.getServerToken(this.address) ?? await vscode.window.showInputBox({
+            title: `Enter the authentication token of the HOL server ${config.formatServerAddress(this.address)}`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: (value) => /[\s$;]/.test(value) ? 'The token cannot contain whitespace, $, or ;' : null,
+        });
+        if (!token) {
+            this.write(colorText('Authentication token is required to connect to this server\n', 'red'));
+            this.socket?.destroy();
+            return;
+        }
+        this.authPending = { token, protocolVersion };
+        this.socket?.write(escapeString(`$auth=${token}$`) + LINE_END);
+    }
+
+    private processAuthResult(result: string, err: boolean) {
+        const { token, protocolVersion } = this.authPending!;
+        this.authPending = undefined;
+        if (err) {
+            // The server closes the connection after a failed authentication
+            this.repl.deleteServerToken(this.address);
+            vscode.window.showErrorMessage(`HOL Light server rejected the authentication token: ${result}`);
+            return;
+        }
+        this.repl.storeServerToken(this.address, token);
+        this.startHandshake(protocolVersion);
+    }
+
+    private processJsonMessage(line: string) {
+        let message: ServerMessage;
+        try {
+            message = JSON.parse(line);
+        } catch (err) {
+            console.error(`HolClient: invalid message: ${line}`);
+            return;
+        }
+        if (message.channel === 'query') {
+            this.processQueryResult(message.id, message.data, message.type);
+            return;
+        }
+        if (message.type === 'hello') {
+            this.handshakePending = false;
+            if (message.data.version !== PROTOCOL_VERSION) {
+                vscode.window.showErrorMessage(`Unsupported HOL Light server protocol version: ${message.data.version}`);
+                this.close();
+                return;
+            }
+            this.protocol = 'json';
+            this.serverPid = message.data.pid;
+            this.canBeInterrupted = message.data.interrupt;
+            return;
+        }
+        if (message.type === 'ready') {
+            this.processReady(message.data.subgoals);
+            return;
+        }
+        if (message.id === null || message.id !== this.currentCommand?.cmdId) {
+            // Results of cancelled commands are ignored
+            return;
+        }
+        switch (message.type) {
+            case 'stdout':
+            case 'stderr':
+                this.processOutput(message.data, message.type === 'stderr');
+                break;
+            case 'result':
+            case 'error':
+            case 'timeout':
+                this.processResult(message.data, message.type !== 'result', message.type === 'timeout');
+                break;
+            case 'diagnostic':
+                this.processDiagnostic(message.data);
+                break;
+            case 'timing':
+                if (this.currentCommand) {
+                    this.currentCommand.timing = message.data;
+                }
+                break;
+        }
+    }
+
+    private processDiagnostic(error: ErrorInfo) {
+        const location = this.currentCommand?.location;
+        if (!location) {
+            return;
+        }
+        const message = error.kind === 'failure' ? `Failure: ${error.message}` : error.message;
+        const diagnostic = new vscode.Diagnostic(getErrorRange(error, location), message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'HOL Light';
+        diagnostic.code = error.kind;
+        this.diagnostics.set(location.uri, [...this.diagnostics.get(location.uri) ?? [], diagnostic]);
+    }
+
+    // Removes diagnostics of previous executions of the statement at the given location
+    private clearDiagnostics(location: vscode.Location) {
+        const diagnostics = this.diagnostics.get(location.uri);
+        if (diagnostics?.length) {
+            this.diagnostics.set(location.uri, diagnostics.filter(d => !d.range.intersection(location.range)));
+        }
+    }
+
+    private processReady(subgoals?: [number, number]) {
+        if (this.pendingProofStep) {
+            this.pendingProofStep.goals = subgoals?.[1] ?? 0;
+            this.pendingProofStep = undefined;
+        }
+        if (!this.suppressPrompt) {
+            let msg = '';
+            if (subgoals) {
+                msg = `${subgoals[0]} subgoal${subgoals[0] === 1 ? '' : 's'} (${subgoals[1]} total) `;
+            }
+            this.setPrompt(colorText(msg, 'blue') + '# ');
+            this.showPrompt();
+        }
+        this.suppressPrompt = false;
+        this.currentCommand?.clear(this.decorations);
+        this.currentCommand = undefined;
+        this.readyFlag = true;
+        this.executeNextCommand();
+        if (this.readyFlag && !this.isInputEmpty()) {
+            // If there is some input in the terminal then restore it.
+            this.clearPrompt();
+            this.restoreInput(true);
+        }
+    }
+
+    private processOutput(output: string, isError: boolean) {
+        if (!this.currentCommand || this.currentCommand.silent) {
+            return;
+        }
+        let text = fixLineBreaks(output);
+        if (isError) {
+            if (this.currentCommand.location) {
+                text = fixErrorLocation(text, this.currentCommand.location);
+            }
+            this.write(colorText(text, 'red'));
+        } else {
+            this.write(text);
+        }
+    }
+
+    private processResult(result: string, err: boolean, timedOut: boolean = false) {
+        if (this.currentCommand && !this.currentCommand.silent) {
+            let text = fixLineBreaks(result);
+            if (err && this.currentCommand?.location) {
+                text = fixErrorLocation(text, this.currentCommand.location);
+            }
+            this.write(colorText(text, err ? 'red' : 'default'));
+            this.markExecutionFinished(err);
+        } else {
+            this.suppressPrompt = this.currentCommand ? true : false;
+        }
+        if (this.currentCommand) {
+            const command = this.currentCommand;
+            this.currentCommand = undefined;
+            command.progressResolve?.();
+
+            if (command.location) {
+                if (!err) {
+                    // If there is no error, remove the previous failure and timeout highlights.
+                    this.decorations.clear(CommandDecorationType.failure, command.location.uri);
+                    this.decorations.clear(CommandDecorationType.timeout, command.location.uri);
+                }
+                const decorationType = timedOut ? CommandDecorationType.timeout
+                    : err ? CommandDecorationType.failure : CommandDecorationType.success;
+                const hoverMessage = command.timing && timingHoverMessage(command.timing);
+                this.decorations.setRange(decorationType, command.location, hoverMessage);
+                if (command.timing) {
+                    const text = command.cmd.trim().split('\n', 1)[0];
+                    this.repl.timings.record({ location: command.location, text, ...command.timing });
+                }
+            }
+
+            // If the command manipulates the goal state, let's properly update the
+            // history of tactic. Also, if the command is "b();;", let's highlight
+            // the previous tactic.
+            if (command.proofCommand && !err) {
+                const step: ProofStep = {
+                    command: command.proofCommand,
+                    argument: getProofCommandArgument(command.cmd),
+                    location: command.location,
+                };
+                if (command.proofCommand === 'g') {
+                    this.proofHistory = [];
+                }
+                this.proofHistory.push(step);
+                this.pendingProofStep = step;
+                switch (command.proofCommand) {
+                    case 'g':
+                        // Reset tactic queue
+                        this.tacticLocHistory = [];
+                        break;
+                    case 'e':
+                        this.tacticLocHistory.push(command.location);
+                        break;
+                    case 'er':
+                        this.tacticLocHistory.push(command.location);
+                        break;
+                    case 'b':
+                        this.tacticLocHistory.pop();
+                        // lastTacticLoc is undefined if there is no more tactic
+                        // to backtrace or the tactic was not associated with any
+                        // actual text in the editor
+                        const lastTacticLoc = this.tacticLocHistory.at(-1);
+                        // If this "b();;" also had a location, this will cause
+                        // doubly highlighting "b();;" as well as the previous
+                        // tactic text. Avoid this because it will look
+                        // ugly.
+                        if (lastTacticLoc && !command.location) {
+                            this.decorations.addRange(
+                                CommandDecorationType.success,
+                                lastTacticLoc);
+                        }
+                        break;
+                    case 'r':
+                        // There is nothing that needs to be done for highlighting.
+                        break;
+                }
+            }
+
+            if (command instanceof CommandWithResult) {
+                if (command.cancellationToken?.isCancellationRequested) {
+                    command.reject(new CancelledError('Cancelled'));
+                } else if (timedOut) {
+                    command.reject(new TimeoutError(result));
+                } else if (err) {
+                    command.reject(new Error(command.location ? fixErrorLocation(result, command.location) : result));
+                } else {
+                    command.resolve(result);
+                }
+            }
+            if (err && command.groupId) {
+                this.cancelCommands(command.groupId);
+            }
+        }
+    }
+
+    private processQueryResult(id: number, result: string, type: 'result' | 'error' | 'timeout') {
+        const query = this.pendingQueries.get(id);
+        if (!query) {
+            // The query has been cancelled
+            return;
+        }
+        this.pendingQueries.delete(id);
+        switch (type) {
+            case 'result':
+                query.resolve(result);
+                break;
+            case 'error':
+                query.reject(new Error(result));
+                break;
+            case 'timeout':
+                query.reject(new TimeoutError(result));
+                break;
+        }
+    }
+
+    private sendMessage(message: ClientMessage) {
+        this.socket?.write(JSON.stringify(message) + LINE_END);
+    }
+
     override close(): void {
         this.socket?.end();
         // this.socket.destroy();
         this.socket = undefined;
         this.serverPid = undefined;
         this.readyFlag = false;
+        this.suppressPrompt = false;
+        this.protocol = 'legacy';
+        this.handshakePending = false;
+        this.authPending = undefined;
+        this.heldQueries.forEach(({ query }) => query.reject(new Error('Connection closed')));
+        this.heldQueries = [];
+        this.pendingQueries.forEach(query => query.reject(new Error('Connection closed')));
+        this.pendingQueries.clear();
         // Clear all commands
         this.clearCommands(new Error('Connection closed'));
     }
 
     override interrupt(): void {
         if (this.canBeInterrupted && this.socket) {
-            this.socket.write('$interrupt' + LINE_END);
+            if (this.protocol === 'json') {
+                this.sendMessage({ id: this.currentCommand?.cmdId ?? null, type: 'interrupt' });
+            } else {
+                this.socket.write('$interrupt' + LINE_END);
+            }
         } else if (this.serverPid) {
             // Do not use negative PID to kill all processes in a group.
             // The group PID is not known if a script is used to run HOL Light.
@@ -380,6 +735,7 @@ export class HolClient extends Terminal implements Executor {
         }
         if (command.location) {
             this.decorations.addRange(CommandDecorationType.pending, command.location);
+            this.clearDiagnostics(command.location);
         }
         if (!command.silent) {
             vscode.window.withProgress({
@@ -411,22 +767,66 @@ export class HolClient extends Terminal implements Executor {
           cmd = `#${linenum} "${filepath}"\n` + cmd;
         }
 
-        const args = [];
-        if (command.silent) {
-            args.push('silent');
-        }
-        if (command.evalAsString) {
-            args.push('string');
+        const args = getCommandArgs(command);
+
+        // console.log(`HolClient: executing command: ${cmd}`);
+        if (this.protocol === 'json') {
+            this.sendMessage({ id: command.cmdId, type: 'eval', data: { input: cmd, args: jsonArgs(args) } });
+            return;
         }
+
         if (args.length) {
-            cmd = `$${args.join(';')}$${cmd}`;
+            const argsStr = args.map(([name, value]) => value === undefined ? name : `${name}=${value}`).join(';');
+            cmd = `$${argsStr}$${cmd}`;
         }
-        
-        // console.log(`HolClient: executing command: ${cmd}`);
         this.socket.write(escapeString(cmd));
         this.socket.write(LINE_END);
     }
 
+    private executeQuery(query: CommandWithResult) {
+        if (!this.socket) {
+            query.reject(new Error('the server is not ready to execute a query'));
+            return;
+        }
+        if (query.cancellationToken?.isCancellationRequested) {
+            query.reject(new CancelledError('Cancelled'));
+            return;
+        }
+        const listener = query.cancellationToken?.onCancellationRequested(() => {
+            const heldIndex = this.heldQueries.findIndex(held => held.query === query);
+            if (heldIndex >= 0) {
+                this.heldQueries.splice(heldIndex, 1);
+                query.reject(new CancelledError('Query cancelled'));
+            } else if (this.pendingQueries.delete(query.cmdId)) {
+                this.sendMessage({ id: query.cmdId, type: 'cancel' });
+                query.reject(new CancelledError('Query cancelled'));
+            }
+        });
+        query.result.then(() => listener?.dispose(), () => listener?.dispose());
+        if (this.commandQueue.length && !query.concurrent) {
+            // The server answers the query after the commands which it has already received
+            this.heldQueries.push({ query, commands: [...this.commandQueue] });
+        } else {
+            this.sendQuery(query);
+        }
+    }
+
+    private sendQuery(query: CommandWithResult) {
+        if (!this.socket) {
+            query.reject(new Error('the server is not ready to execute a query'));
+            return;
+        }
+        this.pendingQueries.set(query.cmdId, query);
+        this.sendMessage({ id: query.cmdId, type: 'query', data: { input: query.cmd, args: jsonArgs(getCommandArgs(query)) } });
+    }
+
+    // Sends held queries which do not wait for queued commands anymore
+    private sendHeldQueries() {
+        const ready = this.heldQueries.filter(({ commands }) => !commands.some(command => this.commandQueue.includes(command)));
+        this.heldQueries = this.heldQueries.filter(held => !ready.includes(held));
+        ready.forEach(({ query }) => this.sendQuery(query));
+    }
+
     private executeNextCommand() {
         while (this.readyFlag && this.commandQueue.length && !this.currentCommand) {
             const command = this.commandQueue.shift();
@@ -439,6 +839,7 @@ export class HolClient extends Terminal implements Executor {
             }
             this.executeCommand(command);
         }
+        this.sendHeldQueries();
     }
 
     private enqueueCommands(commands: Command[], options?: { enqueueFirst?: boolean }) {
@@ -471,6 +872,7 @@ export class HolClient extends Terminal implements Executor {
             }
             return command.groupId !== groupId;
         });
+        this.sendHeldQueries();
     }
 
     execute(cmd: string, options?: CommandOptions): void;
@@ -499,7 +901,12 @@ export class HolClient extends Terminal implements Executor {
             cmd += ';;';
         }
         const command = new CommandWithResult(cmd, options, token);
-        this.enqueueCommands([command]);
+        if (options?.query && this.protocol === 'json') {
+            this.executeQuery(command);
+        } else {
+            // Queries are executed as regular commands with the legacy protocol
+            this.enqueueCommands([command]);
+        }
         return command.result;
     }
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+
+import { PLAIN_GOALSTATE_QUERY } from './goal-view';
+import { ProofStep } from './proof-history';
+import { Repl } from './repl';
+import type { Goalstate, Hypothesis } from './types';
+
+// Tactics which take hypothesis labels as string arguments (e.g., `USE_THEN "H1"`)
+const LABEL_TACTICS = ['USE_THEN', 'REMOVE_THEN', 'LABEL_TAC', 'HYP', 'HYP_TAC'];
+
+// Tactics and functions whose arguments are completed with hypothesis labels and indices
+const ARGUMENT_TACTICS = [...LABEL_TACTICS, 'ASSUME', 'ASSUME_TAC', 'FIRST_X_ASSUM'];
+
+// Matches a name followed by an optional opening parenthesis at the end of a string
+function endsWithName(text: string, names: string[]): boolean {
+    const m = text.match(/([A-Za-z_][\w']*)\s*\(?\s*$/);
+    return !!m && names.includes(m[1]);
+}
+
+/**
+ * Returns the completion context for the text before the cursor:
+ * `{ stringStart }` for a string literal argument of a label tactic,
+ * `{}` for other arguments of hypothesis tactics, and `undefined` if
+ * hypotheses should not be suggested at this position.
+ */
+export function hypothesisArgumentContext(prefix: string): { stringStart?: number } | undefined {
+    if ((prefix.match(/`/g)?.length ?? 0) % 2) {
+        // Inside a term
+        return undefined;
+    }
+    const stringStart = prefix.replace(/"(?:\\.|[^"\\])*"/g, m => ' '.repeat(m.length)).lastIndexOf('"');
+    if (stringStart >= 0) {
+        return endsWithName(prefix.slice(0, stringStart), LABEL_TACTICS) ? { stringStart } : undefined;
+    }
+    // Skip the partially typed argument
+    return endsWithName(prefix.replace(/[\w']*$/, ''), ARGUMENT_TACTICS) ? {} : undefined;
+}
+
+function termDocumentation(hyp: Hypothesis): vscode.MarkdownString {
+    return new vscode.MarkdownString('```\n`' + hyp.term + '`\n```');
+}
+
+/**
+ * Provides completions of hypothesis labels and indices of the current goal
+ * while a proof is in progress. Labels are completed inside string arguments of
+ * label tactics (e.g., `USE_THEN "H1"`). Quoted labels and indices are completed
+ * after tactics which refer to hypotheses (see `hypothesisArgumentContext`).
+ */
+export class HypothesisCompletionProvider implements vscode.CompletionItemProvider {
+    // The goal state is fetched again when the proof history changes
+    private cache?: { history: readonly ProofStep[], length: number, goalstate: Promise<Goalstate | undefined> };
+
+    constructor(private repl: Repl) {
+    }
+
+    private getGoalstate(token: vscode.CancellationToken): Promise<Goalstate | undefined> {
+        const history = this.repl.getProofHistory();
+        if (this.cache?.history === history && this.cache.length === history.length) {
+            return this.cache.goalstate;
+        }
+        const goalstate = this.repl.executeForResult(PLAIN_GOALSTATE_QUERY, { silent: true, evalAsString: true, query: true }, token)
+            .then(result => JSON.parse(result) as Goalstate)
+            .catch(err => {
+                console.log(`Hypothesis completion: ${err}`);
+                // Do not cache failed (or cancelled) requests
+                if (this.cache?.goalstate === goalstate) {
+                    this.cache = undefined;
+                }
+                return undefined;
+            });
+        this.cache = { history, length: history.length, goalstate };
+        return goalstate;
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken, context: vscode.CompletionContext) {
+        // A proof is in progress only if there is a goal in the proof history
+        if (!this.repl.canExecuteForResult() || !this.repl.getProofHistory().length) {
+            return [];
+        }
+        const prefix = document.lineAt(position.line).text.slice(0, position.character);
+        const argument = hypothesisArgumentContext(prefix);
+        if (!argument) {
+            return [];
+        }
+        const stringStart = argument.stringStart ?? -1;
+        if (context.triggerCharacter === '"' && stringStart < 0) {
+            // A closing quote
+            return [];
+        }
+
+        const goal = (await this.getGoalstate(token))?.goals[0];
+        if (!goal || token.isCancellationRequested) {
+            return [];
+        }
+
+        const items: vscode.CompletionItem[] = [];
+        if (stringStart >= 0) {
+            // Labels inside a string literal
+            const range = new vscode.Range(position.line, stringStart + 1, position.line, position.character);
+            goal.hypotheses.forEach((hyp, i) => {
+                if (hyp.label) {
+                    const item = new vscode.CompletionItem(hyp.label, vscode.CompletionItemKind.Variable);
+                    item.detail = `Hypothesis ${i}`;
+                    item.documentation = termDocumentation(hyp);
+                    item.range = range;
+                    items.push(item);
+                }
+            });
+            return items;
+        }
+
+        goal.hypotheses.forEach((hyp, i) => {
+            if (hyp.label) {
+                const item = new vscode.CompletionItem(`"${hyp.label}"`, vscode.CompletionItemKind.Variable);
+                item.filterText = hyp.label;
+                item.detail = `Hypothesis ${i}`;
+                item.documentation = termDocumentation(hyp);
+                items.push(item);
+            }
+            const item = new vscode.CompletionItem(`${i}`, vscode.CompletionItemKind.Value);
+            item.detail = hyp.label ? `Hypothesis ${i} (${hyp.label})` : `Hypothesis ${i}`;
+            item.documentation = termDocumentation(hyp);
+            item.sortText = i.toString().padStart(4, '0');
+            items.push(item);
+        });
+        return items;
+    }
+}
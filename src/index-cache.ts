@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import { CustomCommandNames, DEBUG } from './config';
+import { Definition, DefinitionType, Dependency, Module, OpenDecl, PARSER_VERSION, ParseResult, Reference } from './parser';
+
+const CACHE_FILE_NAME = 'index-cache.json';
+
+type CachedPosition = [number, number];
+type CachedRange = [number, number, number, number];
+
+interface CachedOpenDecl {
+    name: string;
+    position: CachedPosition;
+    range: CachedRange;
+}
+
+interface CachedModule {
+    name: string;
+    // The index of the parent module in the list of modules (-1 for top-level modules)
+    parent: number;
+    position: CachedPosition;
+    endPosition?: CachedPosition;
+    openDecls: CachedOpenDecl[];
+    includeDecls: CachedOpenDecl[];
+}
+
+interface CachedDefinition {
+    name: string;
+    type: DefinitionType;
+    content: string;
+    // The index of the module in the list of modules (-1 for top-level definitions)
+    module: number;
+    position: CachedPosition;
+    endPosition?: CachedPosition;
+}
+
+interface CachedDependency {
+    name: string;
+    range: CachedRange;
+    holLightRelative: boolean;
+}
+
+// References are grouped by their names. Each reference is represented by 3 numbers:
+// the line, the character, and the index of the module (-1 for top-level references).
+type CachedReferences = [string, number[]][];
+
+interface CachedParseResult {
+    definitions: CachedDefinition[];
+    modules: CachedModule[];
+    dependencies: CachedDependency[];
+    globalModule: CachedModule;
+    references: CachedReferences;
+}
+
+interface CacheEntry {
+    mtime: number;
+    // Custom command names which were used for parsing the file
+    customNames: string;
+    result: CachedParseResult;
+}
+
+interface CacheFile {
+    version: number;
+    files: Record<string, CacheEntry>;
+}
+
+function customNamesKey(customNames: CustomCommandNames): string {
+    return JSON.stringify([customNames.customImports, customNames.customDefinitions, customNames.customTheorems]);
+}
+
+function fromPosition(pos: vscode.Position): CachedPosition {
+    return [pos.line, pos.character];
+}
+
+function toPosition([line, character]: CachedPosition): vscode.Position {
+    return new vscode.Position(line, character);
+}
+
+function fromRange(range: vscode.Range): CachedRange {
+    return [range.start.line, range.start.character, range.end.line, range.end.character];
+}
+
+function toRange(range: CachedRange): vscode.Range {
+    return new vscode.Range(...range);
+}
+
+export function serializeParseResult(result: ParseResult): CachedParseResult {
+    const moduleIndices = new Map(result.modules.map((mod, i) => [mod, i]));
+    const serializeDecl = (decl: OpenDecl): CachedOpenDecl => ({
+        name: decl.name,
+        position: fromPosition(decl.position),
+        range: fromRange(decl.range),
+    });
+    const serializeModule = (mod: Module): CachedModule => ({
+        name: mod.name,
+        parent: mod.parent ? moduleIndices.get(mod.parent) ?? -1 : -1,
+        position: fromPosition(mod.position),
+        endPosition: mod.endPosition && fromPosition(mod.endPosition),
+        openDecls: mod.openDecls.map(serializeDecl),
+        includeDecls: mod.includeDecls.map(serializeDecl),
+    });
+    const references = new Map<string, number[]>();
+    for (const ref of result.references) {
+        let data = references.get(ref.name);
+        if (!data) {
+            references.set(ref.name, data = []);
+        }
+        data.push(ref.position.line, ref.position.character, ref.module ? moduleIndices.get(ref.module) ?? -1 : -1);
+    }
+    return {
+        definitions: result.definitions.map(def => ({
+            name: def.name,
+            type: def.type,
+            content: def.content,
+            module: def.module ? moduleIndices.get(def.module) ?? -1 : -1,
+            position: fromPosition(def.position),
+            endPosition: def.endPosition && fromPosition(def.endPosition),
+        })),
+        modules: result.modules.map(serializeModule),
+        dependencies: result.dependencies.map(dep => ({
+            name: dep.name,
+            range: fromRange(dep.range),
+            holLightRelative: dep.holLightRelative,
+        })),
+        globalModule: serializeModule(result.globalModule),
+        references: [...references],
+    };
+}
+
+export function deserializeParseResult(cached: CachedParseResult, uri: vscode.Uri): ParseResult {
+    const deserializeModule = (cachedMod: CachedModule, parent: Module | undefined): Module => {
+        const mod = new Module(cachedMod.name, parent, toPosition(cachedMod.position), uri);
+        mod.endPosition = cachedMod.endPosition && toPosition(cachedMod.endPosition);
+        for (const decl of cachedMod.openDecls) {
+            mod.openDecls.push({ name: decl.name, position: toPosition(decl.position), range: toRange(decl.range) });
+        }
+        for (const decl of cachedMod.includeDecls) {
+            mod.includeDecls.push({ name: decl.name, position: toPosition(decl.position), range: toRange(decl.range) });
+        }
+        return mod;
+    };
+    // Parent modules always precede their submodules
+    const modules: Module[] = [];
+    for (const cachedMod of cached.modules) {
+        const parent = modules[cachedMod.parent];
+        const mod = deserializeModule(cachedMod, parent);
+        parent?.modules.push(mod);
+        modules.push(mod);
+    }
+    const definitions = cached.definitions.map(cachedDef => {
+        const mod = modules[cachedDef.module];
+        const def = new Definition(cachedDef.name, cachedDef.type, cachedDef.content, mod, toPosition(cachedDef.position), uri);
+        def.endPosition = cachedDef.endPosition && toPosition(cachedDef.endPosition);
+        mod?.definitions.push(def);
+        return def;
+    });
+    const dependencies = cached.dependencies.map(dep => new Dependency(dep.name, toRange(dep.range), dep.holLightRelative));
+    const references: Reference[] = [];
+    for (const [name, data] of cached.references) {
+        for (let i = 0; i + 2 < data.length; i += 3) {
+            references.push(new Reference(name, new vscode.Position(data[i], data[i + 1]), modules[data[i + 2]], uri));
+        }
+    }
+    return { definitions, modules, dependencies, globalModule: deserializeModule(cached.globalModule, undefined), references };
+}
+
+/**
+ * A persistent cache of parse results. Entries are keyed by file paths and are valid
+ * only if modification times and custom command names are not changed.
+ * The whole cache is invalidated when PARSER_VERSION changes.
+ */
+export class IndexCache {
+    private entries: Map<string, CacheEntry> = new Map();
+
+    private loading?: Promise<void>;
+
+    private modified = false;
+
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private readonly cacheDir: string) {
+    }
+
+    private get cachePath(): string {
+        return path.join(this.cacheDir, CACHE_FILE_NAME);
+    }
+
+    private load(): Promise<void> {
+        this.loading ??= (async () => {
+            try {
+                const data = JSON.parse(await fs.readFile(this.cachePath, 'utf-8')) as CacheFile;
+                if (data.version === PARSER_VERSION && data.files) {
+                    this.entries = new Map(Object.entries(data.files));
+                }
+            } catch (err) {
+                // The cache file does not exist or it is corrupted
+                if (DEBUG) {
+                    console.log(`Index cache is not loaded: ${err}`);
+                }
+            }
+        })();
+        return this.loading;
+    }
+
+    async get(filePath: string, mtime: number, customNames: CustomCommandNames): Promise<ParseResult | undefined> {
+        await this.load();
+        const entry = this.entries.get(filePath);
+        if (!entry || entry.mtime !== mtime || entry.customNames !== customNamesKey(customNames)) {
+            return undefined;
+        }
+        try {
+            return deserializeParseResult(entry.result, vscode.Uri.file(filePath));
+        } catch (err) {
+            console.error(`Invalid index cache entry: ${filePath}\n${err}`);
+            this.entries.delete(filePath);
+            return undefined;
+        }
+    }
+
+    async set(filePath: string, mtime: number, customNames: CustomCommandNames, result: ParseResult) {
+        await this.load();
+        this.entries.set(filePath, { mtime, customNames: customNamesKey(customNames), result: serializeParseResult(result) });
+        this.modified = true;
+    }
+
+    // Removes entries of files which do not exist anymore
+    private async removeDeletedFiles() {
+        const paths = [...this.entries.keys()];
+        const exists = await Promise.all(paths.map(filePath => fs.access(filePath).then(() => true, () => false)));
+        paths.forEach((filePath, i) => {
+            if (!exists[i]) {
+                this.entries.delete(filePath);
+            }
+        });
+    }
+
+    /**
+     * Writes the cache to the disk if it has been modified.
+     * Entries of deleted files are not saved.
+     */
+    save(): Promise<void> {
+        this.saving = this.saving.then(async () => {
+            if (!this.modified) {
+                return;
+            }
+            this.modified = false;
+            await this.removeDeletedFiles();
+            const data: CacheFile = { version: PARSER_VERSION, files: Object.fromEntries(this.entries) };
+            const tmpPath = this.cachePath + '.tmp';
+            try {
+                await fs.mkdir(this.cacheDir, { recursive: true });
+                await fs.writeFile(tmpPath, JSON.stringify(data));
+                await fs.rename(tmpPath, this.cachePath);
+            } catch (err) {
+                console.error(`Cannot save the index cache: ${err}`);
+            }
+        });
+        return this.saving;
+    }
+}
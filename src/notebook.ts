@@ -3,6 +3,7 @@ import stripAnsi from 'strip-ansi';
 import { TextDecoder, TextEncoder } from 'node:util';
 
 import * as config from './config';
+import { TimeoutError } from './executor';
 import { Repl } from './repl';
 import { splitStatements } from './selection';
 import { filterMap } from './util';
@@ -94,7 +95,7 @@ export class HolNotebookController {
             if (action === 'Start Server') {
                 const address = await config.getServerAddress({ portOnly: true });
                 if (address) {
-                    if (!await this.repl.startServer(address[1])) {
+                    if (!await this.repl.startServer(address)) {
                         return;
                     }
                 }
@@ -143,8 +144,11 @@ export class HolNotebookController {
             execution.replaceOutput(output.map(out => new vscode.NotebookCellOutput([out])));
             execution.end(true, Date.now());
         } catch (err) {
+            const message = (err as Error).message;
             execution.replaceOutput(new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.stderr((err as Error).message)
+                err instanceof TimeoutError
+                    ? vscode.NotebookCellOutputItem.text(`**Timeout**: ${message}`, 'text/markdown')
+                    : vscode.NotebookCellOutputItem.stderr(message)
             ]));
             execution.end(false, Date.now());
         }
@@ -2,6 +2,10 @@ import * as vscode from 'vscode';
 
 import { CustomCommandNames } from './config';
 
+// The version of the parser output. It should be incremented when parse results change
+// (cached parse results of previous versions are discarded).
+export const PARSER_VERSION = 4;
+
 export class Dependency {
     readonly name: string;
 
@@ -31,6 +35,8 @@ export class Definition {
     readonly content: string;
     readonly module?: Module;
     readonly position: vscode.Position;
+    // The end of the statement which contains this definition
+    endPosition?: vscode.Position;
     private uri?: vscode.Uri;
     private completionItem?: vscode.CompletionItem;
 
@@ -81,6 +87,33 @@ export class Definition {
         return hover;
     }
 
+    toDocumentSymbol(): vscode.DocumentSymbol {
+        const nameRange = new vscode.Range(this.position, this.position.translate(0, this.name.length));
+        const range = this.endPosition?.isAfter(nameRange.end) ? new vscode.Range(this.position, this.endPosition) : nameRange;
+        let kind: vscode.SymbolKind;
+        let detail: string;
+        switch (this.type) {
+            case DefinitionType.theorem:
+                kind = vscode.SymbolKind.Constant;
+                detail = 'theorem';
+                break;
+            case DefinitionType.definition:
+                kind = vscode.SymbolKind.Function;
+                detail = 'definition';
+                break;
+            case DefinitionType.term:
+                kind = vscode.SymbolKind.Object;
+                detail = 'term';
+                break;
+            case DefinitionType.other:
+                kind = vscode.SymbolKind.Variable;
+                // content represents type
+                detail = this.content;
+                break;
+        }
+        return new vscode.DocumentSymbol(this.name, detail, kind, range, nameRange);
+    }
+
     toCompletionItem(useFullName: boolean): vscode.CompletionItem {
         const name = useFullName && this.module ? this.module.fullName + '.' + this.name : this.name;
         if (this.completionItem) {
@@ -148,6 +181,22 @@ export class Module {
         return hover;
     }
 
+    /**
+     * Returns a symbol with all definitions and submodules of this module as children.
+     * @param documentEnd used as the end position of unclosed modules
+     */
+    toDocumentSymbol(documentEnd: vscode.Position): vscode.DocumentSymbol {
+        const nameRange = new vscode.Range(this.position, this.position.translate(0, this.name.length));
+        const end = this.endPosition ?? documentEnd;
+        const range = end.isAfter(nameRange.end) ? new vscode.Range(this.position, end) : nameRange;
+        const symbol = new vscode.DocumentSymbol(this.name, '', vscode.SymbolKind.Module, range, nameRange);
+        symbol.children = [
+            ...this.definitions.map(def => ({ position: def.position, symbol: def.toDocumentSymbol() })),
+            ...this.modules.map(mod => ({ position: mod.position, symbol: mod.toDocumentSymbol(documentEnd) })),
+        ].sort((a, b) => a.position.compareTo(b.position)).map(({ symbol }) => symbol);
+        return symbol;
+    }
+
     toCompletionItem(useFullName: boolean): vscode.CompletionItem {
         const name = useFullName ? this.fullName : this.name;
         if (this.completionItem) {
@@ -165,6 +214,47 @@ export class Module {
 }
 
 
+/**
+ * An occurrence of an identifier (possibly qualified: `Module.name`) outside of comments, strings, and terms.
+ */
+export class Reference {
+    // The identifier text as it appears in the source
+    readonly name: string;
+    readonly position: vscode.Position;
+    // The innermost module which contains this reference (undefined for top-level references)
+    readonly module?: Module;
+    private uri?: vscode.Uri;
+
+    constructor(name: string, position: vscode.Position, module: Module | undefined, uri?: vscode.Uri) {
+        this.name = name;
+        this.position = position;
+        this.module = module;
+        this.uri = uri;
+    }
+
+    getFilePath(): string | undefined {
+        return this.uri?.fsPath;
+    }
+
+    /**
+     * Returns the range of the i-th component of the qualified name.
+     * The range of the full name is returned if i is undefined.
+     */
+    getRange(i?: number): vscode.Range {
+        if (i === undefined) {
+            return new vscode.Range(this.position, this.position.translate(0, this.name.length));
+        }
+        const names = this.name.split('.');
+        const start = names.slice(0, i).reduce((n, name) => n + name.length + 1, 0);
+        return new vscode.Range(this.position.translate(0, start), this.position.translate(0, start + names[i].length));
+    }
+
+    getLocation(i?: number): vscode.Location | null {
+        return this.uri ? new vscode.Location(this.uri, this.getRange(i)) : null;
+    }
+}
+
+
 interface ParserOptions {
     customNames?: CustomCommandNames;
     debug: boolean;
@@ -177,6 +267,8 @@ export interface ParseResult {
     dependencies: Dependency[];
     // The global module tracks all open and include statements. It does not contain definitions or other modules.
     globalModule: Module;
+    // All identifier occurrences (including names of definitions and modules)
+    references: Reference[];
 }
 
 export function parseText(text: string, uri: vscode.Uri, options: ParserOptions): ParseResult {
@@ -184,6 +276,23 @@ export function parseText(text: string, uri: vscode.Uri, options: ParserOptions)
     return new Parser(text, options).parse(uri);
 }
 
+/**
+ * A statement `let name = prove(`term`, tactic)`.
+ * All positions are offsets in the parsed text.
+ */
+export interface ProofStatement {
+    name: string;
+    // The goal term including backquotes
+    termStart: number;
+    termEnd: number;
+    tacticStart: number;
+    tacticEnd: number;
+}
+
+export function parseProof(text: string, options: ParserOptions): ProofStatement | null {
+    return new Parser(text, options).parseProof();
+}
+
 export enum TokenType {
     eof,
     comment,
@@ -222,6 +331,13 @@ const OCAML_KEYWORDS = new Set([
     "while",       "with",
 ]);
 
+/**
+ * Returns true if the given name is a valid OCaml value name (operators are not supported).
+ */
+export function isIdentifier(name: string): boolean {
+    return /^[_a-z][\w']*$/i.test(name) && !OCAML_KEYWORDS.has(name);
+}
+
 export class Token {
     readonly type: TokenType;
     readonly value?: string;
@@ -971,6 +1087,8 @@ export class Parser {
             // `let x;;`
             const state = this.saveState();
 
+            const statementDefinitions = definitions.length;
+
             // We can safely consume the next token because the position is restored from `state`
             const statementToken = this.nextSkipComments();
             const statementValue = statementToken.value || '';
@@ -1097,13 +1215,184 @@ export class Parser {
 
             this.resetState(state);
             this.skipToNextStatement(moduleStack.length > 0);
+
+            // All definitions of the current statement end before `;;` or before the next statement
+            if (definitions.length > statementDefinitions) {
+                const endPos = this.getPosition(this.statementEnd(state.pos, this.pos));
+                definitions.slice(statementDefinitions).forEach(def => def.endPosition = endPos);
+            }
         }
 
         if (moduleStack.length && this.debugFlag) {
             moduleStack.forEach(mod => this.report(`Unclosed module: ${mod.name}`, mod.position, uri));
         }
 
-        return { definitions, modules, dependencies, globalModule };
+        const references = this.parseReferences(modules, definitions, uri);
+
+        return { definitions, modules, dependencies, globalModule, references };
+    }
+
+    private getPosition(offset: number): vscode.Position {
+        const line = findLineNumber(this.lineStarts, offset);
+        return new vscode.Position(line, offset - this.lineStarts[line]);
+    }
+
+    /**
+     * Returns the end offset of a statement which ends at or before the given end offset
+     * (trailing statement separators and whitespace are excluded).
+     */
+    private statementEnd(start: number, end: number): number {
+        const skip = (re: RegExp) => {
+            while (end > start && re.test(this.text[end - 1])) {
+                end--;
+            }
+        };
+        skip(/\s/);
+        skip(/;/);
+        skip(/\s/);
+        return end;
+    }
+
+    /**
+     * Collects all identifiers which are not keywords. Comments, strings, and terms are skipped.
+     * Local names (parameters of functions, names bound by `fun`, `let ... in`, and match cases)
+     * and their uses are also skipped. The scope of a local name is approximated by the rest
+     * of the current top-level definition.
+     * Modules should be sorted by their start positions.
+     */
+    private parseReferences(modules: Module[], definitions: Definition[], uri?: vscode.Uri): Reference[] {
+        this.resetState({ pos: 0 });
+        const references: Reference[] = [];
+        const moduleStack: Module[] = [];
+        let nextModule = 0;
+
+        const positionKey = (pos: vscode.Position) => `${pos.line}:${pos.character}`;
+        const definitionPositions = new Set(definitions.map(def => positionKey(def.position)));
+        const locals = new Set<string>();
+        // The kind of the binding construct which is parsed at the current token:
+        // `let` bindings end with `=` and patterns (`fun`, `function`, `match`) end with `->`
+        // (`=` also ends patterns in `{ r with field = ... }`)
+        let binding: 'let' | 'pattern' | undefined;
+        // True inside type annotations of bindings
+        let inType = false;
+
+        for (let token = this.next(); token.type !== TokenType.eof; token = this.next()) {
+            const value = token.value ?? '';
+            if (token.type === TokenType.statementSeparator) {
+                locals.clear();
+                binding = undefined;
+                continue;
+            }
+            if (token.type === TokenType.operator || token.type === TokenType.other) {
+                if (value === '=' || value === '->') {
+                    binding = undefined;
+                } else if (value === '|' && !binding) {
+                    binding = 'pattern';
+                }
+                if (value === ':' && binding) {
+                    inType = true;
+                } else if (value === ')' || value === ',' || value === '=' || value === '->') {
+                    inType = false;
+                }
+                continue;
+            }
+            if (token.type !== TokenType.identifier) {
+                continue;
+            }
+            if (token.isKeyword()) {
+                if (value === 'let' || value === 'and') {
+                    binding = 'let';
+                } else if (value === 'fun' || value === 'function' || value === 'with') {
+                    binding = 'pattern';
+                } else if (value === 'when') {
+                    binding = undefined;
+                }
+                continue;
+            }
+            const pos = token.getStartPosition(this.lineStarts);
+            if (definitionPositions.has(positionKey(pos))) {
+                // A new definition: local names of the previous definition are not visible
+                locals.clear();
+            } else if (binding && !inType && /^[_a-z]/.test(value) && !value.includes('.')) {
+                locals.add(value);
+                continue;
+            } else if (locals.has(value)) {
+                continue;
+            }
+            while (moduleStack.length && moduleStack.at(-1)!.endPosition?.isBeforeOrEqual(pos)) {
+                moduleStack.pop();
+            }
+            while (nextModule < modules.length && modules[nextModule].position.isBeforeOrEqual(pos)) {
+                const module = modules[nextModule++];
+                while (moduleStack.length && moduleStack.at(-1) !== module.parent) {
+                    moduleStack.pop();
+                }
+                moduleStack.push(module);
+            }
+            references.push(new Reference(value, pos, moduleStack.at(-1), uri));
+        }
+        return references;
+    }
+
+    /**
+     * Parses a single statement `let name = prove(`term`, tactic)` at the beginning of the text.
+     * Returns null if the text does not start with a proof.
+     */
+    parseProof(): ProofStatement | null {
+        this.resetState({ pos: 0 });
+        try {
+            if (this.nextSkipComments().value !== 'let') {
+                return null;
+            }
+            const lhs = this.parseLetBindingLhs();
+            if (lhs.length !== 1 || this.nextSkipComments().value !== '=') {
+                return null;
+            }
+            while (this.peekSkipComments().value === '(') {
+                this.next();
+            }
+            if (!this.theoremRe.test(this.nextSkipComments().value ?? '')) {
+                return null;
+            }
+            this.expect('(');
+            const term = this.expect(TokenType.term);
+            this.expect(',');
+
+            // The tactic ends at the closing bracket of the theorem function call
+            const tacticStart = this.peekSkipComments().startPos;
+            let tacticEnd = tacticStart;
+            let level = 0;
+            while (true) {
+                const token = this.nextSkipComments();
+                const value = token.value ?? '';
+                if (token.type === TokenType.eof || token.type === TokenType.statementSeparator) {
+                    return null;
+                }
+                if (value === '(' || value === '[' || value === '[|' || value === '{') {
+                    level++;
+                } else if (value === ')' || value === ']' || value === '|]' || value === '}') {
+                    if (--level < 0) {
+                        break;
+                    }
+                }
+                tacticEnd = token.endPos;
+            }
+            if (tacticEnd <= tacticStart) {
+                return null;
+            }
+            return {
+                name: lhs[0].nameToken.getValue(this.text),
+                termStart: term.startPos,
+                termEnd: term.endPos,
+                tacticStart,
+                tacticEnd,
+            };
+        } catch (err) {
+            if (err instanceof ParserError) {
+                return null;
+            }
+            throw err;
+        }
     }
 
     // For testing and debugging
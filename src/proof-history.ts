@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+
+import { ProofCommand } from './executor';
+import { Repl } from './repl';
+import * as selection from './selection';
+
+export interface ProofStep {
+    command: ProofCommand;
+    // The argument of the command: a goal, a tactic, or a number of rotations
+    argument: string;
+    location?: vscode.Location;
+    // The total number of goals after the command (undefined if it is not reported yet)
+    goals?: number;
+}
+
+/**
+ * Returns the argument of a proof command without the command name, brackets, and `;;`.
+ */
+export function getProofCommandArgument(cmd: string): string {
+    const arg = cmd.trim().replace(/;+$/, '').replace(/^(?:er|[gerb])(?![\w'])/, '').trim();
+    return arg[0] === '(' && closingBracket(arg, 0) === arg.length - 1 ? arg.slice(1, -1).trim() : arg;
+}
+
+// Returns the index of the bracket which closes the bracket at the given position
+function closingBracket(text: string, start: number): number {
+    let level = 0;
+    for (let i = start; i < text.length; i++) {
+        const c = text[i];
+        if (c === '`' || c === '"') {
+            const re = c === '"' ? /\\.|"/g : /`/g;
+            re.lastIndex = i + 1;
+            let m: RegExpExecArray | null;
+            while ((m = re.exec(text)) && m[0] !== c) {
+                // Skip escaped characters
+            }
+            if (!m) {
+                return -1;
+            }
+            i = m.index;
+        } else if (c === '(' || c === '[') {
+            level++;
+        } else if (c === ')' || c === ']') {
+            if (--level === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+// Returns true if the tactic contains a top-level infix operator
+function needsBrackets(tactic: string): boolean {
+    const topLevel = tactic.replace(/`[^`]*`|"(?:\\.|[^"\\])*"/g, '""');
+    let level = 0;
+    let text = '';
+    for (const c of topLevel) {
+        if (c === '(' || c === '[') {
+            level++;
+        } else if (c === ')' || c === ']') {
+            level--;
+        } else if (level === 0) {
+            text += c;
+        }
+    }
+    return /\b(?:THEN|THENL|ORELSE)\b/.test(text);
+}
+
+/**
+ * Removes steps reverted with b. The result corresponds to the current goalstack:
+ * the first element is the g command (if it is in the history) and every other
+ * element is a command which added a goalstack state.
+ */
+export function getAppliedSteps(steps: readonly ProofStep[]): ProofStep[] {
+    const applied: ProofStep[] = [];
+    for (const step of steps) {
+        if (step.command === 'g') {
+            applied.length = 0;
+            applied.push(step);
+        } else if (step.command === 'b') {
+            if (applied.length > 1) {
+                applied.pop();
+            }
+        } else {
+            applied.push(step);
+        }
+    }
+    return applied;
+}
+
+interface ProofNode {
+    tactic?: string;
+    children: ProofNode[];
+}
+
+export interface ProofScript {
+    goal: string;
+    goalLocation?: vscode.Location;
+    tactic: string;
+    // The number of goals without tactics
+    unproved: number;
+}
+
+/**
+ * Reconstructs a proof tree from proof commands and returns a tactic which proves the goal.
+ * New subgoals are put before remaining goals by e and after remaining goals by er.
+ * Subgoals are split with THENL. Goals which are not proved are closed with ALL_TAC.
+ * Returns null if the steps do not start with g or if numbers of goals are not consistent.
+ */
+export function buildProof(steps: readonly ProofStep[]): ProofScript | null {
+    const applied = getAppliedSteps(steps);
+    if (applied[0]?.command !== 'g') {
+        return null;
+    }
+
+    const root: ProofNode = { children: [] };
+    let goals = [root];
+    for (const step of applied.slice(1)) {
+        if (step.goals === undefined) {
+            return null;
+        }
+        if (step.command === 'r') {
+            const n = goals.length ? (+step.argument || 0) % goals.length : 0;
+            goals = [...goals.slice(n), ...goals.slice(0, n)];
+            continue;
+        }
+        const [node, ...rest] = goals;
+        const newGoals = step.goals - rest.length;
+        if (!node || newGoals < 0) {
+            return null;
+        }
+        node.tactic = step.argument;
+        node.children = Array.from({ length: newGoals }, () => ({ children: [] }));
+        goals = step.command === 'er' ? [...rest, ...node.children] : [...node.children, ...rest];
+    }
+
+    let unproved = 0;
+    const render = (node: ProofNode, indent: string): string => {
+        if (node.tactic === undefined) {
+            unproved++;
+            return 'ALL_TAC';
+        }
+        const tactic = needsBrackets(node.tactic) ? `(${node.tactic})` : node.tactic;
+        switch (node.children.length) {
+            case 0:
+                return tactic;
+            case 1:
+                return `${tactic} THEN\n${indent}${render(node.children[0], indent)}`;
+            default: {
+                const branchIndent = indent + '  ';
+                const branches = node.children.map(child => branchIndent + render(child, branchIndent));
+                return `${tactic} THENL [\n${branches.join(';\n')}\n${indent}]`;
+            }
+        }
+    };
+    const tactic = render(root, '  ');
+    return { goal: applied[0].argument, goalLocation: applied[0].location, tactic, unproved };
+}
+
+/**
+ * Creates a statement `let name = prove(goal, tactic)` from the proof history
+ * of the active HOL Light session. The statement is inserted after the statement
+ * with the goal or copied to the clipboard.
+ */
+export async function createProveStatement(repl: Repl) {
+    const proof = buildProof(repl.getProofHistory());
+    if (!proof) {
+        vscode.window.showErrorMessage('No proof history: set a goal with g and apply tactics with e (a HOL Light server is required)');
+        return;
+    }
+    const statement = `prove(${proof.goal},\n  ${proof.tactic})`;
+
+    const insertItem = 'Insert after the goal';
+    const copyItem = 'Copy to the clipboard';
+    const goalLocation = proof.goalLocation;
+    const choice = goalLocation
+        ? await vscode.window.showQuickPick([insertItem, copyItem], { title: 'Create a prove statement' })
+        : copyItem;
+    if (choice === insertItem && goalLocation) {
+        const editor = await vscode.window.showTextDocument(goalLocation.uri);
+        const document = editor.document;
+        const goalStatement = selection.selectStatement(document, document.offsetAt(goalLocation.range.start));
+        const pos = document.lineAt(document.positionAt(goalStatement.documentEnd).line).range.end;
+        const snippet = new vscode.SnippetString('\n\nlet ')
+            .appendPlaceholder('NAME')
+            .appendText(` = ${statement};;`);
+        await editor.insertSnippet(snippet, pos);
+    } else if (choice === copyItem) {
+        await vscode.env.clipboard.writeText(`let NAME = ${statement};;`);
+        vscode.window.showInformationMessage('The prove statement has been copied to the clipboard');
+    } else {
+        return;
+    }
+    if (proof.unproved) {
+        vscode.window.showWarningMessage(`The proof is not finished: ${proof.unproved} goal${proof.unproved === 1 ? ' is' : 's are'} closed with ALL_TAC`);
+    }
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+
+import * as pathLib from 'node:path';
+
+import * as config from './config';
+import { GoalViewPanel } from './goal-view';
+import { parseProof } from './parser';
+import { Repl } from './repl';
+import * as selection from './selection';
+import * as tactic from './tactic';
+
+interface SteppedProof {
+    document: vscode.TextDocument;
+    // The document version when the proof was parsed
+    version: number;
+    name: string;
+    steps: tactic.TacticStep[];
+    // The index of the next step
+    index: number;
+}
+
+/**
+ * Steps through the tactic of an existing proof `let name = prove(`term`, tactic)`:
+ * the goal is set with g and then the tactic is applied piece by piece with e and er.
+ */
+export class ProofStepper {
+    private proof?: SteppedProof;
+
+    // True while a step is being executed
+    private running = false;
+
+    // Highlights the next step
+    private nextStepDecoration: vscode.TextEditorDecorationType;
+
+    constructor(private repl: Repl) {
+        this.nextStepDecoration = vscode.window.createTextEditorDecorationType({
+            borderColor: new vscode.ThemeColor('editorInfo.foreground'),
+            borderStyle: 'dashed',
+            borderWidth: '1px',
+        });
+    }
+
+    dispose() {
+        this.nextStepDecoration.dispose();
+    }
+
+    updateDecorations() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const step = this.proof?.document === editor.document ? this.proof.steps[this.proof.index] : undefined;
+            editor.setDecorations(this.nextStepDecoration, step ? [step.range] : []);
+        }
+    }
+
+    private stop() {
+        this.proof = undefined;
+        this.updateDecorations();
+    }
+
+    /**
+     * Starts stepping through the proof at the cursor.
+     */
+    async start(editor: vscode.TextEditor) {
+        const document = editor.document;
+        const statement = selection.selectStatement(document, document.offsetAt(editor.selection.active));
+        const proof = parseProof(statement.text, { customNames: config.getCustomCommandNames(), debug: false });
+        if (!proof) {
+            vscode.window.showWarningMessage('Not inside a proof: let name = prove(`term`, tactic)');
+            return;
+        }
+        const terminal = await this.repl.getTerminalWindow({ workDir: pathLib.dirname(document.uri.fsPath) });
+        if (!terminal) {
+            return;
+        }
+        terminal.show(true);
+
+        const offset = statement.documentStart;
+        const term = new vscode.Range(document.positionAt(offset + proof.termStart), document.positionAt(offset + proof.termEnd));
+        const tacticRange = new vscode.Range(document.positionAt(offset + proof.tacticStart), document.positionAt(offset + proof.tacticEnd));
+        this.proof = {
+            document,
+            version: document.version,
+            name: proof.name,
+            steps: tactic.splitTactic(document, tacticRange),
+            index: 0,
+        };
+
+        const location = new vscode.Location(document.uri, term);
+        this.repl.execute(`g(${document.getText(term)});;`, { location, proofCommand: 'g' });
+        GoalViewPanel.refresh(location);
+        this.updateDecorations();
+    }
+
+    private getProof(): SteppedProof | undefined {
+        if (!this.proof) {
+            vscode.window.showWarningMessage('No proof to step through: start stepping through a proof first');
+            return;
+        }
+        if (this.proof.document.isClosed || this.proof.document.version !== this.proof.version) {
+            vscode.window.showWarningMessage(`The proof of ${this.proof.name} has been modified: start stepping through it again`);
+            this.stop();
+            return;
+        }
+        return this.proof;
+    }
+
+    /**
+     * Applies the next step of the current proof.
+     * The proof advances only if the step succeeds: a failed step remains the next step.
+     */
+    async next() {
+        const proof = this.getProof();
+        if (!proof || this.running) {
+            return;
+        }
+        const step = proof.steps[proof.index];
+        if (!step) {
+            vscode.window.showInformationMessage(`All steps of ${proof.name} have been applied`);
+            return;
+        }
+        const command = step.command === 'er' && !this.repl.erSupportedByHOL() ? 'e' : step.command;
+        const location = new vscode.Location(proof.document.uri, step.range);
+        const cmd = `${command}(${proof.document.getText(step.range)});;`;
+        this.running = true;
+        try {
+            if (this.repl.canExecuteForResult()) {
+                await this.repl.executeForResult(cmd, { location, proofCommand: command });
+            } else {
+                // Results are not available in a terminal: assume that the step succeeds
+                this.repl.execute(cmd, { location, proofCommand: command });
+            }
+        } catch {
+            // The error is reported in the REPL and the failed step remains highlighted
+            return;
+        } finally {
+            this.running = false;
+        }
+        if (this.proof !== proof) {
+            return;
+        }
+        proof.index++;
+        GoalViewPanel.refresh(location);
+        this.updateDecorations();
+
+        const editor = vscode.window.visibleTextEditors.find(editor => editor.document === proof.document);
+        const nextStep = proof.steps[proof.index];
+        if (editor && nextStep) {
+            editor.revealRange(nextStep.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    }
+
+    /**
+     * Undoes the last applied step of the current proof.
+     */
+    back() {
+        const proof = this.getProof();
+        if (!proof || proof.index === 0 || this.running) {
+            return;
+        }
+        proof.index--;
+        this.repl.execute('b();;', { proofCommand: 'b' });
+        GoalViewPanel.refresh(undefined);
+        this.updateDecorations();
+    }
+}
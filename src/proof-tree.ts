@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+import { ProofStep, getAppliedSteps } from './proof-history';
+import type { ProofTreeNode, SourceLocation } from './types';
+
+interface Node {
+    tactic?: string;
+    location?: vscode.Location;
+    children: Node[];
+}
+
+export function toSourceLocation(location: vscode.Location): SourceLocation {
+    const { start, end } = location.range;
+    return { uri: location.uri.toString(), range: [start.line, start.character, end.line, end.character] };
+}
+
+/**
+ * Builds a proof tree from goalstack transitions reported by the server
+ * (see goalstack_transitions in hol_light_json.ml) and the proof history of the client.
+ * Every tactic is a node and the subgoals produced by the tactic are its children.
+ * The history is aligned with the goalstack from the end: tactics which were not
+ * executed by the client are shown as '?'.
+ * Returns undefined if there is no goal.
+ */
+export function buildProofTree(transitions: number[][], history: readonly ProofStep[]): ProofTreeNode | undefined {
+    if (!transitions.length) {
+        return undefined;
+    }
+    const applied = getAppliedSteps(history);
+    const offset = transitions.length - applied.length;
+
+    const root: Node = { children: [] };
+    let goals: Node[] = transitions[0].map(() => root);
+    for (let i = 1; i < transitions.length; i++) {
+        const sources = transitions[i];
+        const step = i - offset > 0 ? applied[i - offset] : undefined;
+        const isRotation = step ? step.command === 'r' : !sources.includes(-1) && sources.includes(0);
+        if (isRotation) {
+            goals = sources.map(j => goals[j] ?? { children: [] });
+            continue;
+        }
+        // The tactic is applied to the first goal. Goals which are not found in the previous state
+        // and goals which are equal to the first goal are produced by the tactic.
+        const node = goals[0] ?? { children: [] };
+        node.tactic = step?.argument ?? '?';
+        node.location = step?.location;
+        node.children = [];
+        goals = sources.map(j => {
+            if (j > 0 && goals[j]) {
+                return goals[j];
+            }
+            const child: Node = { children: [] };
+            node.children.push(child);
+            return child;
+        });
+    }
+
+    const goalIndices = new Map(goals.map((node, i) => [node, i]));
+    const convert = (node: Node): ProofTreeNode => {
+        const children = node.children.map(convert);
+        const goalIndex = goalIndices.get(node);
+        return {
+            tactic: node.tactic,
+            location: node.location && toSourceLocation(node.location),
+            goalIndex,
+            closed: goalIndex === undefined && children.every(child => child.closed),
+            children,
+        };
+    };
+    return convert(root);
+}
@@ -1,15 +1,22 @@
 import * as vscode from 'vscode';
 import stripAnsi from 'strip-ansi';
 
+import * as crypto from 'node:crypto';
 import * as pathLib from 'node:path';
 
 import * as config from './config';
 import { CommandDecorations } from './decoration';
 import { Executor, StandardExecutor, CommandOptions } from './executor';
 import * as client from './hol-client';
+import { ProofStep } from './proof-history';
+import { StatementTimings } from './timing';
 import * as util from './util';
 
-const getMultithreadedServerCode = (extensionPath: string, port: number, debug: boolean) =>
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+const ocamlString = (s: string) => `"${s.replace(/[\\"]/g, '\\$&')}"`;
+
+const getMultithreadedServerCode = (extensionPath: string, address: config.ServerAddress, token: string, debug: boolean) =>
 `#directory "+compiler-libs";;
 #directory "+threads";;
 #load "unix.cma";;
@@ -19,7 +26,9 @@ unset_jrh_lexer;;
 set_jrh_lexer;;
 #mod_use "${pathLib.join(extensionPath, 'ocaml', 'hol_light_json.ml')}";;
 Server2.debug_flag := ${debug};;
-Server2.start ~single_connection:true ${port};;
+${'path' in address
+    ? `Server2.start_unix ~single_connection:true ~token:${ocamlString(token)} ${ocamlString(address.path)};;`
+    : `Server2.start ~single_connection:true ~token:${ocamlString(token)} ${address.port};;`}
 `;
 
 export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
@@ -36,6 +45,14 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
 
     private readonly startServerItem: vscode.StatusBarItem;
 
+    // Authentication tokens of HOL Light servers
+    private readonly secrets: vscode.SecretStorage;
+
+    private readonly diagnostics: vscode.DiagnosticCollection;
+
+    // Execution times of statements evaluated by HOL Light servers
+    readonly timings = new StatementTimings();
+
     constructor(context: vscode.ExtensionContext, private decorations: CommandDecorations) {
         context.subscriptions.push(
             vscode.window.onDidCloseTerminal((term) => {
@@ -52,6 +69,10 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
         );
 
         this.extensionPath = context.extensionPath;
+        this.secrets = context.secrets;
+
+        this.diagnostics = vscode.languages.createDiagnosticCollection('HOL Light');
+        context.subscriptions.push(this.diagnostics);
 
         this.startServerItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
         this.startServerItem.command = 'hol-light.start_server';
@@ -128,6 +149,14 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
         return this.getActiveExecutor()?.executeForResult(cmd, options, token) ?? Promise.reject("Uninitialized HOL terminal");
     }
 
+    getTacticHistory(): readonly (vscode.Location | undefined)[] {
+        return this.holClient?.getTacticHistory() ?? [];
+    }
+
+    getProofHistory(): readonly ProofStep[] {
+        return this.holClient?.getProofHistory() ?? [];
+    }
+
     erSupportedByHOL(): boolean {
         return this.erAvailable;
     }
@@ -138,13 +167,17 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
         return !this.waitingForClient && !!this.holTerminal && !this.holClient && !this.clientTerminal;
     }
 
-    async startServer(port: number, debug: boolean = false): Promise<boolean> {
+    async startServer(address: config.ServerAddress, debug: boolean = false): Promise<boolean> {
         if (!this.holTerminal || !this.canStartServer()) {
             return false;
         }
 
+        // The server accepts input only from clients which know this token
+        const token = crypto.randomBytes(32).toString('hex');
+        await this.storeServerToken(address, token);
+
         // debug = true;
-        const serverCode = getMultithreadedServerCode(this.extensionPath, port, debug);
+        const serverCode = getMultithreadedServerCode(this.extensionPath, address, token, debug);
         this.holTerminal.sendText(serverCode);
 
         // Try to open a client terminal after some delay
@@ -153,7 +186,7 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
             setTimeout(() => {
                 this.waitingForClient = false;
                 if (this.canStartServer()) {
-                    this.createHolClientTerminal('localhost', port, true);
+                    this.createHolClientTerminal(address, true);
                     resolve(true);
                 } else {
                     resolve(false);
@@ -164,13 +197,34 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
         });
     }
 
-    createHolClientTerminal(address: string, port: number, show: boolean) {
+    // Loopback addresses with the same port share a token: servers started by this extension
+    // listen on localhost and users may connect to them with 127.0.0.1 or ::1
+    private static serverTokenKey(address: config.ServerAddress): string {
+        if ('host' in address && LOOPBACK_HOSTS.includes(address.host.toLowerCase())) {
+            address = { host: 'localhost', port: address.port };
+        }
+        return `serverToken:${config.formatServerAddress(address)}`;
+    }
+
+    getServerToken(address: config.ServerAddress): Thenable<string | undefined> {
+        return this.secrets.get(Repl.serverTokenKey(address));
+    }
+
+    storeServerToken(address: config.ServerAddress, token: string): Thenable<void> {
+        return this.secrets.store(Repl.serverTokenKey(address), token);
+    }
+
+    deleteServerToken(address: config.ServerAddress): Thenable<void> {
+        return this.secrets.delete(Repl.serverTokenKey(address));
+    }
+
+    createHolClientTerminal(address: config.ServerAddress, show: boolean) {
         this.clientTerminal?.dispose();
         this.clientTerminal = undefined;
         this.holClient = undefined;
         this.erAvailable = false;
 
-        this.holClient = new client.HolClient(address, port, this.decorations, this);
+        this.holClient = new client.HolClient(address, this.decorations, this.diagnostics, this);
         this.clientTerminal = vscode.window.createTerminal({ name: 'HOL Light (client)', pty: this.holClient, isTransient: true });
 
         if (show) {
@@ -250,8 +304,8 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
                         input.hide();
                         const address = await config.getServerAddress({ showInputBox: true });
                         if (address) {
-                            config.updateConfigOption(config.SERVER_ADDRESS, address.join(':'));
-                            serverItem.detail = `Address: ${address.join(':')}`;
+                            config.updateConfigOption(config.SERVER_ADDRESS, config.formatServerAddress(address));
+                            serverItem.detail = `Address: ${config.formatServerAddress(address)}`;
                         }
                         resolveOnHide = true;
                         input.items = items;
@@ -315,7 +369,7 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
                 if (!address) {
                     return;
                 }
-                this.createHolClientTerminal(address[0], address[1], false);
+                this.createHolClientTerminal(address, false);
             }
         } else if (!this.getActiveTerminal() && Repl.defaultExecutor) {
             this.holTerminal = vscode.window.createTerminal({ name: 'HOL Light', isTransient: true });
@@ -331,7 +385,7 @@ export class Repl implements Executor, vscode.Disposable, vscode.HoverProvider {
             return null;
         }
         try {
-            const res = await this.executeForResult('( ' + word + ' )', { silent: true }, token);
+            const res = await this.executeForResult('( ' + word + ' )', { silent: true, query: true, concurrent: true }, token);
             // Make sure that res is not too long.
             // vscode.MarkdownString may freeze for long inputs.
             const m = (res.length > 50000 ? res.slice(0, 50000) + '...' : res).match(/^[^:]*:([^=]*)=(.*)/s);
@@ -334,4 +334,136 @@ export function selectTactic(editor: vscode.TextEditor, maxLines: number,
         newline: newline,
         endsWithSemicolon: endsWithSemicolon
     };
-}
\ No newline at end of file
+}
+export interface TacticStep {
+    range: vscode.Range;
+    // 'er' is used for the last step of a THENL branch which is followed by other branches
+    command: 'e' | 'er';
+}
+
+/**
+ * Splits the tactic in the given range into steps which can be applied one by one with e and er.
+ * Tactics combined with THEN are applied sequentially (as if they were sent to HOL Light manually).
+ * Every branch of THENL [...] is processed in turn and the last step of each branch
+ * (except the last branch) rotates to the next subgoal with er.
+ * Parentheses around THEN and THENL combinations are removed.
+ */
+export function splitTactic(document: vscode.TextDocument, range: vscode.Range): TacticStep[] {
+    const firstLine = range.start.line;
+    const toks = new Tokenizer(n => {
+        if (n < 0 || n + firstLine > range.end.line) {
+            return null;
+        }
+        let text = document.lineAt(n + firstLine).text;
+        if (n + firstLine === range.end.line) {
+            text = text.slice(0, range.end.character);
+        }
+        if (n === 0) {
+            text = text.slice(range.start.character);
+        }
+        return text;
+    });
+
+    // Collect meaningful tokens with trimmed document positions
+    const tokens: Token[] = [];
+    const toPosition = (pos: vscode.Position) =>
+        new vscode.Position(pos.line + firstLine, pos.character + (pos.line === 0 ? range.start.character : 0));
+    loop:
+    while (true) {
+        const tok = toks.next();
+        let start = tok.start;
+        let end = tok.end;
+        switch (tok.type) {
+            case TokenType.eof:
+            case TokenType.terminator:
+                break loop;
+            case TokenType.comment:
+            case TokenType.eol:
+                continue;
+            case TokenType.other:
+                if (/^\s*$/.test(tok.value)) {
+                    continue;
+                }
+                start = start.translate(0, tok.value.search(/\S/));
+                end = end.translate(0, -(tok.value.length - tok.value.trimEnd().length));
+                break;
+        }
+        start = toPosition(start);
+        end = toPosition(end);
+        tokens.push(new Token(tok.type, tok.value, start.line, start.character, end.line, end.character));
+    }
+
+    // Returns the index of the bracket which matches the opening bracket at i
+    function matchingBracket(i: number, end: number): number {
+        let level = 0;
+        for (let j = i; j < end; j++) {
+            if (tokens[j].type === TokenType.bracket) {
+                level += tokens[j].value === '(' || tokens[j].value === '[' ? 1 : -1;
+                if (level === 0) {
+                    return j;
+                }
+            }
+        }
+        return -1;
+    }
+
+    // Splits tokens[start, end) at top-level tokens of the given type
+    function split(start: number, end: number, type: TokenType): [number, number, Token | undefined][] {
+        const parts: [number, number, Token | undefined][] = [];
+        let level = 0;
+        let partStart = start;
+        let separator: Token | undefined;
+        for (let i = start; i < end; i++) {
+            const tok = tokens[i];
+            if (tok.type === TokenType.bracket) {
+                level += tok.value === '(' || tok.value === '[' ? 1 : -1;
+            } else if (tok.type === type && level === 0) {
+                parts.push([partStart, i, separator]);
+                partStart = i + 1;
+                separator = tok;
+            }
+        }
+        parts.push([partStart, end, separator]);
+        return parts;
+    }
+
+    function parseSequence(start: number, end: number): TacticStep[] {
+        const steps: TacticStep[] = [];
+        let itemSteps = 0;
+        for (const [itemStart, itemEnd, separator] of split(start, end, TokenType.then)) {
+            if (itemStart >= itemEnd) {
+                continue;
+            }
+            const enclosed = tokens[itemStart].type === TokenType.bracket
+                && matchingBracket(itemStart, itemEnd) === itemEnd - 1;
+            let prevLength = steps.length;
+            if (separator?.value === 'THENL') {
+                if (enclosed && tokens[itemStart].value === '[') {
+                    const branches = split(itemStart + 1, itemEnd - 1, TokenType.semicolon)
+                        .map(([branchStart, branchEnd]) => parseSequence(branchStart, branchEnd))
+                        .filter(branch => branch.length);
+                    branches.forEach((branch, i) => {
+                        if (i < branches.length - 1) {
+                            branch[branch.length - 1].command = 'er';
+                        }
+                        steps.push(...branch);
+                    });
+                } else {
+                    // The list of tactics is not given explicitly: combine it with the previous tactic
+                    const first = steps.splice(steps.length - itemSteps)[0];
+                    prevLength = steps.length;
+                    const range = new vscode.Range(first?.range.start ?? tokens[itemStart].start, tokens[itemEnd - 1].end);
+                    steps.push({ range, command: 'e' });
+                }
+            } else if (enclosed && tokens[itemStart].value === '(') {
+                steps.push(...parseSequence(itemStart + 1, itemEnd - 1));
+            } else {
+                steps.push({ range: new vscode.Range(tokens[itemStart].start, tokens[itemEnd - 1].end), command: 'e' });
+            }
+            itemSteps = steps.length - prevLength;
+        }
+        return steps;
+    }
+
+    return parseSequence(0, tokens.length);
+}
@@ -0,0 +1,346 @@
+import * as net from 'node:net';
+
+import * as config from '../config';
+import { ClientMessage, ErrorInfo, PROTOCOL_VERSION, ServerMessage, escapeString, unescapeString } from '../hol-client';
+import { Goalstate } from '../types';
+
+type Args = { [name: string]: string | boolean };
+
+export interface MockResponse {
+    // The result of a successful evaluation
+    result?: string;
+    // If defined then the evaluation fails with this message
+    error?: string;
+    stdout?: string;
+    stderr?: string;
+    // Structured error information (JSON-lines protocol only)
+    diagnostic?: ErrorInfo;
+    // Evaluation time in milliseconds
+    delay?: number;
+}
+
+export type MockHandler = MockResponse | ((input: string, args: Args) => MockResponse);
+
+export interface MockRequest {
+    channel: 'main' | 'query';
+    input: string;
+    args: Args;
+}
+
+interface Evaluation {
+    id: number | null;
+    input: string;
+    args: Args;
+    timer?: NodeJS.Timeout;
+    finish: (response: MockResponse, type?: 'result' | 'error' | 'timeout') => void;
+}
+
+const GOALSTATE_QUERY = /Hol_light_json\.json_of_top_goalstate/;
+const PRINT_TYPES_QUERY = /!print_types_of_subterms/;
+
+/**
+ * An in-process replacement of server2.ml for tests.
+ * It speaks the same socket protocol (the legacy line protocol and the JSON-lines protocol)
+ * and answers requests with scripted responses.
+ */
+export class MockHolServer {
+    private server?: net.Server;
+    private socket?: net.Socket;
+
+    private responses: [string | RegExp, MockHandler][] = [];
+    private goalstate?: Goalstate;
+
+    private jsonMode = false;
+    private authenticated = false;
+    private evaluation?: Evaluation;
+    private mainQueue: { id: number | null, input: string, args: Args }[] = [];
+    private queryQueue: { id: number, input: string, args: Args }[] = [];
+
+    // All evaluated requests
+    readonly requests: MockRequest[] = [];
+    // The number of received interrupt requests
+    interrupts = 0;
+    // The number of received queries (including queries which are not answered yet)
+    receivedQueries = 0;
+
+    /**
+     * @param options.protocol 'legacy' if the server should not advertise the JSON-lines protocol
+     * @param options.token if defined then clients should authenticate with this token
+     */
+    constructor(private readonly options: { protocol?: 'json' | 'legacy', token?: string } = {}) {
+    }
+
+    start(): Promise<config.ServerAddress> {
+        return new Promise((resolve, reject) => {
+            this.server = net.createServer(socket => this.accept(socket));
+            this.server.on('error', reject);
+            this.server.listen(0, '127.0.0.1', () => {
+                const address = this.server!.address() as net.AddressInfo;
+                resolve({ host: '127.0.0.1', port: address.port });
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        if (this.evaluation?.timer) {
+            clearTimeout(this.evaluation.timer);
+        }
+        this.evaluation = undefined;
+        this.socket?.destroy();
+        this.socket = undefined;
+        return new Promise(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    }
+
+    /**
+     * Adds a scripted response for inputs which contain the given string or match the given regular expression.
+     * Responses added later take precedence.
+     */
+    respond(pattern: string | RegExp, handler: MockHandler) {
+        this.responses.unshift([pattern, handler]);
+    }
+
+    /**
+     * Sets the goal state returned to the goal view and reported in ready messages.
+     */
+    setGoalstate(goalstate?: Goalstate) {
+        this.goalstate = goalstate;
+    }
+
+    clearRequests() {
+        this.requests.length = 0;
+        this.interrupts = 0;
+        this.receivedQueries = 0;
+    }
+
+    private getResponse(input: string, args: Args): MockResponse {
+        for (const [pattern, handler] of this.responses) {
+            if (typeof pattern === 'string' ? input.includes(pattern) : pattern.test(input)) {
+                return typeof handler === 'function' ? handler(input, args) : handler;
+            }
+        }
+        if (GOALSTATE_QUERY.test(input)) {
+            return { result: JSON.stringify(this.goalstate ?? { goals: [], subgoals: 0 }) };
+        }
+        if (PRINT_TYPES_QUERY.test(input)) {
+            return { result: '1' };
+        }
+        return { result: '' };
+    }
+
+    private accept(socket: net.Socket) {
+        this.socket?.destroy();
+        this.socket = socket;
+        this.jsonMode = false;
+        this.authenticated = !this.options.token;
+        this.mainQueue = [];
+        this.queryQueue = [];
+
+        socket.setEncoding('utf8');
+        let buffer = '';
+        socket.on('data', (data: string) => {
+            const lines = (buffer + data).split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(line => this.processLine(line));
+        });
+        socket.on('error', () => {});
+
+        const info = ['interrupt:true'];
+        if (this.options.protocol !== 'legacy') {
+            info.push(`protocol:${PROTOCOL_VERSION}`);
+        }
+        info.push(`auth:${!!this.options.token}`);
+        this.sendLegacy('info:', info.join(';'));
+        if (this.authenticated) {
+            this.sendReady();
+        }
+    }
+
+    private sendLegacy(prefix: string, text: string) {
+        this.socket?.write(prefix + escapeString(text) + '\n');
+    }
+
+    private sendMessage(message: ServerMessage) {
+        this.socket?.write(JSON.stringify(message) + '\n');
+    }
+
+    private sendReady() {
+        const subgoals: [number, number] | undefined = this.goalstate?.goals.length
+            ? [this.goalstate.goals.length, this.goalstate.subgoals] : undefined;
+        if (this.jsonMode) {
+            this.sendMessage({ id: null, channel: 'main', type: 'ready', data: subgoals ? { subgoals } : {} });
+        } else {
+            this.sendLegacy('ready:', subgoals ? `subgoals:${subgoals[0]},${subgoals[1]}` : 'subgoals:');
+        }
+    }
+
+    private processLine(line: string) {
+        if (!this.authenticated) {
+            const [, args] = parseArgs(unescapeString(line).trim());
+            if (args.auth === this.options.token) {
+                this.authenticated = true;
+                this.sendLegacy('result:', 'Authenticated');
+                this.sendReady();
+            } else {
+                this.sendLegacy('rerror:', 'Authentication failed: invalid token');
+                this.socket?.end();
+            }
+            return;
+        }
+
+        if (this.jsonMode) {
+            const message = JSON.parse(line) as ClientMessage;
+            switch (message.type) {
+                case 'eval':
+                    this.mainQueue.push({ id: message.id, ...message.data });
+                    break;
+                case 'query':
+                    this.receivedQueries++;
+                    if (message.data.args.concurrent) {
+                        // Concurrent queries do not wait for the running evaluation
+                        this.answerQuery({ id: message.id, ...message.data });
+                    } else {
+                        this.queryQueue.push({ id: message.id, ...message.data });
+                    }
+                    break;
+                case 'cancel':
+                    this.queryQueue = this.queryQueue.filter(query => query.id !== message.id);
+                    break;
+                case 'interrupt':
+                    this.interrupt();
+                    break;
+            }
+        } else {
+            const input = unescapeString(line).trim();
+            if (input === '$interrupt') {
+                this.interrupt();
+                return;
+            }
+            const [cmd, args] = parseArgs(input);
+            if (args.protocol === 'json' && args.version === `${PROTOCOL_VERSION}`) {
+                this.jsonMode = true;
+                // The process id is not reported: the client should never send signals to the test process
+                this.sendMessage({ id: null, channel: 'main', type: 'hello', data: { version: PROTOCOL_VERSION, pid: 0, interrupt: true } });
+                this.sendReady();
+                return;
+            }
+            this.mainQueue.push({ id: null, input: cmd, args });
+        }
+        this.processQueue();
+    }
+
+    private interrupt() {
+        this.interrupts++;
+        if (this.evaluation) {
+            if (this.evaluation.timer) {
+                clearTimeout(this.evaluation.timer);
+            }
+            this.evaluation.finish({ error: 'Interrupted.' });
+        }
+    }
+
+    private answerQuery(query: { id: number, input: string, args: Args }) {
+        this.requests.push({ channel: 'query', input: query.input, args: query.args });
+        const response = this.getResponse(query.input, query.args);
+        this.sendMessage({
+            id: query.id, channel: 'query',
+            type: response.error === undefined ? 'result' : 'error',
+            data: response.error ?? response.result ?? '',
+        });
+    }
+
+    // Queries are evaluated between main channel requests
+    private runQueries() {
+        this.queryQueue.splice(0).forEach(query => this.answerQuery(query));
+    }
+
+    private processQueue() {
+        if (this.evaluation) {
+            return;
+        }
+        this.runQueries();
+        const request = this.mainQueue.shift();
+        if (!request) {
+            return;
+        }
+        this.requests.push({ channel: 'main', input: request.input, args: request.args });
+        const response = this.getResponse(request.input, request.args);
+
+        const evaluation: Evaluation = {
+            ...request,
+            finish: (response, type) => {
+                if (this.evaluation !== evaluation) {
+                    return;
+                }
+                this.evaluation = undefined;
+                this.sendResponse(request.id, response, type);
+                this.runQueries();
+                this.sendReady();
+                this.processQueue();
+            },
+        };
+        this.evaluation = evaluation;
+
+        const delay = response.delay ?? 0;
+        const timeout = typeof request.args.timeout === 'string' ? +request.args.timeout * 1000 : 0;
+        if (timeout > 0 && delay > timeout) {
+            const message = `Timeout: evaluation took longer than ${request.args.timeout} seconds`;
+            evaluation.timer = setTimeout(() => evaluation.finish({ error: message }, 'timeout'), timeout);
+        } else {
+            evaluation.timer = setTimeout(() => evaluation.finish(response), delay);
+        }
+    }
+
+    private sendResponse(id: number | null, response: MockResponse, type?: 'result' | 'error' | 'timeout') {
+        const isError = response.error !== undefined;
+        const result = response.error ?? response.result ?? '';
+        type ??= isError ? 'error' : 'result';
+        if (this.jsonMode) {
+            if (response.stdout) {
+                this.sendMessage({ id, channel: 'main', type: 'stdout', data: response.stdout });
+            }
+            if (response.stderr) {
+                this.sendMessage({ id, channel: 'main', type: 'stderr', data: response.stderr });
+            }
+            this.sendMessage({ id, channel: 'main', type: 'timing', data: { wall: (response.delay ?? 0) / 1000, cpu: 0 } });
+            if (response.diagnostic && isError) {
+                this.sendMessage({ id, channel: 'main', type: 'diagnostic', data: response.diagnostic });
+            }
+            this.sendMessage({ id, channel: 'main', type, data: result });
+        } else {
+            this.sendLegacy('stdout:', response.stdout ?? '');
+            this.sendLegacy('stderr:', response.stderr ?? '');
+            this.sendLegacy(isError ? 'rerror:' : 'result:', result);
+        }
+    }
+}
+
+/**
+ * Waits until the condition is satisfied. Fails after the given number of milliseconds.
+ */
+export async function waitFor(condition: () => boolean, timeout = 2000) {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condition is not satisfied after ${timeout} ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+// Does what parse_args of server2.ml does
+function parseArgs(input: string): [string, Args] {
+    const m = input.match(/^\$([^$]*)\$/s);
+    if (!m) {
+        return [input, {}];
+    }
+    const args: Args = {};
+    for (const arg of m[1].split(';')) {
+        const i = arg.indexOf('=');
+        if (i >= 0) {
+            args[arg.slice(0, i)] = arg.slice(i + 1);
+        } else {
+            args[arg] = true;
+        }
+    }
+    return [input.slice(m[0].length), args];
+}
@@ -37,4 +37,66 @@ suite('Database Test Suite', () => {
         assert.deepEqual(database.findDefinitionsAndModules('Pair', depPath, new vscode.Position(43, 0)), { defs: [], mods: new Set([utilsMod.modules[0]]) }, 'Definitions and modules for "Pair" in modules.hl:44:1');
 
     });
+
+    test('Workspace files', async () => {
+        const docPath = path.join(__dirname, '../../../src/test/examples', 'proofs.hl');
+        const modulesPath = path.join(__dirname, '../../../src/test/examples', 'modules.hl');
+        const document = await vscode.workspace.openTextDocument(docPath);
+
+        const database = new db.Database(vscode.languages.createDiagnosticCollection("diagnostic"));
+        await database.indexDocumentWithDependencies(document, '', ['.'], true);
+        const pos = new vscode.Position(0, 0);
+        assert.strictEqual(database.findDefinitionsAndModulesWithFallback('test_expr', docPath, pos).defs.length, 0, 'Not indexed');
+
+        // modules.hl is not a dependency of proofs.hl
+        await database.indexFiles([modulesPath], '', ['.']);
+        assert.strictEqual(database.findDefinitionsAndModules('test_expr', docPath, pos).defs.length, 0, 'Not a dependency');
+        assert.strictEqual(database.findDefinitionsAndModulesWithFallback('test_expr', docPath, pos).defs.length, 1, 'Workspace file');
+        assert.strictEqual(database.findDefinitionsAndModulesWithFallback('Utils', docPath, pos).mods.size, 1, 'Workspace module');
+
+        database.removeFile(modulesPath);
+        assert.strictEqual(database.findDefinitionsAndModulesWithFallback('test_expr', docPath, pos).defs.length, 0, 'Removed file');
+    });
+
+    test('References', async () => {
+        const docPath = path.join(__dirname, '../../../src/test/examples', 'modules.hl');
+        const document = await vscode.workspace.openTextDocument(docPath);
+
+        const database = new db.Database(vscode.languages.createDiagnosticCollection("diagnostic"));
+        await database.indexDocumentWithDependencies(document, '', ['.'], true);
+
+        const { defs, mods } = database.findDefinitionsAndModules('Utils.Pair', docPath, new vscode.Position(45, 0));
+        const refs = database.findReferences('Pair', defs, mods, true);
+        assert.deepEqual(refs.map(loc => loc.range), [
+            new vscode.Range(5, 7, 5, 11),
+            new vscode.Range(12, 5, 12, 9),
+            new vscode.Range(31, 15, 31, 19),
+        ], 'References to Utils.Pair');
+        assert.strictEqual(database.findReferences('Pair', defs, mods, false).length, 2, 'References without the declaration');
+    });
+
+    test('Rename', async () => {
+        const docPath = path.join(__dirname, '../../../src/test/examples', 'modules.hl');
+        const document = await vscode.workspace.openTextDocument(docPath);
+        const token = new vscode.CancellationTokenSource().token;
+
+        const database = new db.Database(vscode.languages.createDiagnosticCollection("diagnostic"));
+        await database.indexDocumentWithDependencies(document, '', ['.'], true);
+
+        // `let const x _ = x` in the module Utils
+        const pos = new vscode.Position(3, 5);
+        assert.deepEqual(database.prepareRename(document, pos, token),
+            { range: new vscode.Range(3, 4, 3, 9), placeholder: 'const' }, 'Prepare rename');
+        assert.throws(() => database.prepareRename(document, new vscode.Position(2, 8), token), /Modules cannot be renamed/, 'Module rename');
+
+        const edit = await database.provideRenameEdits(document, pos, 'konst', token);
+        assert.ok(edit, 'Rename edits');
+        assert.deepEqual(edit.get(document.uri).map(e => [e.range, e.newText]), [[new vscode.Range(3, 4, 3, 9), 'konst']], 'Rename edits');
+        await assert.rejects(async () => database.provideRenameEdits(document, pos, 'let', token), /Invalid name/, 'Invalid name');
+
+        const { defs } = database.findDefinitionsAndModules('Utils.const', docPath, new vscode.Position(45, 0));
+        const locations = database.findReferences('const', defs, [], true);
+        assert.deepEqual(database.findNameClashes('test_expr', locations).map(def => def.name), ['test_expr'], 'Name clashes');
+        assert.deepEqual(database.findNameClashes('konst', locations), [], 'No name clashes');
+    });
 });
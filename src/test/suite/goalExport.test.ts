@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+
+import { exportGoalstate, substituteSymbols } from '../../goal-export';
+import type { Goalstate } from '../../types';
+
+suite('Goal Export Test Suite', () => {
+    test('substituteSymbols', () => {
+        assert.strictEqual(
+            substituteSymbols('!x. x IN s /\\ ~(x <= 1) ==> ?y. INT y', 'unicode'),
+            '∀x. x ∈ s ∧ ¬(x ≤ 1) ⇒ ∃y. INT y'
+        );
+        assert.strictEqual(substituteSymbols('"a /\\ b" \\/ c', 'unicode'), '"a /\\ b" ∨ c');
+        assert.strictEqual(substituteSymbols('a /\\ b_1', 'latex', s => s.replace(/_/g, '\\_')), 'a $\\land$ b\\_1');
+    });
+
+    test('exportGoalstate', () => {
+        const goalstate: Goalstate = {
+            goals: [{ hypotheses: [{ label: 'H', term: 'x > 0' }], term: '?y. y < x' }],
+            subgoals: 1,
+        };
+        assert.strictEqual(
+            exportGoalstate(goalstate, 'markdown', false),
+            '**Goal**\n\n```\n  0 [`x > 0`] (H)\n\n`?y. y < x`\n```\n'
+        );
+        assert.strictEqual(
+            exportGoalstate(goalstate, 'latex', true),
+            '\\paragraph{Goal}\n\n\\begin{tabular}{@{}r@{\\quad}l@{}}\n' +
+            '  \\texttt{(H) 0} & \\texttt{x \\textgreater{} 0} \\\\\n' +
+            '  \\hline\n' +
+            '  & \\texttt{$\\exists$y. y \\textless{} x} \\\\\n' +
+            '\\end{tabular}\n'
+        );
+    });
+});
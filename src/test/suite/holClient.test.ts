@@ -0,0 +1,183 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { CommandDecorations, CommandDecorationType } from '../../decoration';
+import { InterruptedError, TimeoutError } from '../../executor';
+import { HolClient, HolClientRepl } from '../../hol-client';
+import { SearchResultsProvider } from '../../search-results';
+import { StatementTimings } from '../../timing';
+import { MockHolServer, waitFor } from '../mockServer';
+
+suite('HolClient Test Suite', () => {
+    let server: MockHolServer;
+    let client: HolClient;
+    let decorations: CommandDecorations;
+    let diagnostics: vscode.DiagnosticCollection;
+    let token: string | undefined;
+
+    const repl: HolClientRepl = {
+        timings: new StatementTimings(),
+        getServerToken: () => Promise.resolve(token),
+        storeServerToken: () => Promise.resolve(),
+        deleteServerToken: () => Promise.resolve(),
+        createHolClientTerminal: () => {},
+    };
+
+    async function connect(options?: { protocol?: 'json' | 'legacy', token?: string }) {
+        server = new MockHolServer(options);
+        const address = await server.start();
+        client = new HolClient(address, decorations, diagnostics, repl);
+        client.open(undefined);
+    }
+
+    setup(() => {
+        token = undefined;
+        decorations = new CommandDecorations({});
+        diagnostics = vscode.languages.createDiagnosticCollection('test');
+    });
+
+    teardown(async () => {
+        client?.close();
+        await server?.close();
+        diagnostics.dispose();
+    });
+
+    for (const protocol of ['json', 'legacy'] as const) {
+        test(`executeForResult (${protocol} protocol)`, async () => {
+            await connect({ protocol });
+            server.respond('1 + 1', { result: '2' });
+            server.respond('failwith', { error: 'Exception: Failure "bad".' });
+
+            assert.strictEqual(await client.executeForResult('1 + 1', { silent: true }), '2');
+            await assert.rejects(client.executeForResult('failwith "bad"', { silent: true }), /Failure "bad"/);
+            assert.deepStrictEqual(server.requests.map(r => r.input), ['1 + 1;;', 'failwith "bad";;']);
+        });
+    }
+
+    test('Queries are answered after queued commands', async () => {
+        await connect();
+        server.respond('slow', { result: 'slow', delay: 200 });
+        server.respond('tactic', { result: 'tactic' });
+        server.respond('query', { result: 'query' });
+
+        const order: string[] = [];
+        const record = (p: Promise<string>) => p.then(result => { order.push(result); });
+        const slow = record(client.executeForResult('slow'));
+        await waitFor(() => server.requests.length > 0);
+        // A goal view refresh after a tactic should see the goal state after this tactic
+        const tactic = record(client.executeForResult('tactic', { silent: true }));
+        const query = record(client.executeForResult('query', { silent: true, query: true }));
+        await Promise.all([slow, tactic, query]);
+
+        assert.deepStrictEqual(order, ['slow', 'tactic', 'query']);
+        assert.deepStrictEqual(server.requests.map(r => r.channel), ['main', 'main', 'query']);
+    });
+
+    test('Queries do not wait for the running command', async () => {
+        await connect();
+        server.respond('slow', { result: 'slow', delay: 200 });
+        server.respond('query', { result: 'query' });
+
+        const slow = client.executeForResult('slow');
+        await waitFor(() => server.requests.length > 0);
+        const query = client.executeForResult('query', { silent: true, query: true });
+        // The query is sent at once and the server answers it after the running command
+        await waitFor(() => server.receivedQueries > 0);
+        assert.strictEqual(await slow, 'slow');
+        assert.strictEqual(await query, 'query');
+    });
+
+    test('Concurrent queries', async () => {
+        await connect();
+        server.respond('slow', { result: 'slow', delay: 200 });
+        server.respond('next', { result: 'next' });
+        server.respond('hover', { result: 'hover' });
+
+        const order: string[] = [];
+        const record = (p: Promise<string>) => p.then(result => { order.push(result); });
+        const slow = record(client.executeForResult('slow'));
+        await waitFor(() => server.requests.length > 0);
+        const next = record(client.executeForResult('next', { silent: true }));
+        // A hover query waits neither for the running command nor for queued commands
+        const hover = record(client.executeForResult('hover', { silent: true, query: true, concurrent: true }));
+        await Promise.all([slow, next, hover]);
+
+        assert.deepStrictEqual(order, ['hover', 'slow', 'next']);
+        assert.deepStrictEqual(server.requests.map(r => [r.channel, r.args.concurrent ?? false]),
+            [['main', false], ['query', true], ['main', false]]);
+    });
+
+    test('Interrupt', async () => {
+        await connect();
+        server.respond('loop', { result: '', delay: 10000 });
+
+        const result = client.executeForResult('loop');
+        await waitFor(() => server.requests.length > 0);
+        client.interrupt();
+
+        await assert.rejects(result, InterruptedError);
+        // Commands are rejected before the server receives the interrupt request
+        await waitFor(() => server.interrupts > 0);
+        assert.strictEqual(server.interrupts, 1);
+        assert.strictEqual(await client.executeForResult('1', { silent: true }), '');
+    });
+
+    test('Timeout', async () => {
+        await connect();
+        server.respond('loop', { result: '', delay: 10000 });
+
+        await assert.rejects(client.executeForResult('loop', { timeout: 0.05 }), TimeoutError);
+    });
+
+    test('A failed command cancels its group', async () => {
+        await connect();
+        server.respond('fail', { error: 'Error: Unbound value fail' });
+
+        client.execute([{ cmd: 'a' }, { cmd: 'fail' }, { cmd: 'b' }]);
+        await client.executeForResult('c', { silent: true });
+
+        assert.deepStrictEqual(server.requests.map(r => r.input), ['a;;', 'fail;;', 'c;;']);
+    });
+
+    test('Decorations and diagnostics', async () => {
+        await connect();
+        const uri = vscode.Uri.file('/test/proofs.hl');
+        const location = new vscode.Location(uri, new vscode.Range(2, 4, 3, 10));
+        server.respond('good', { result: 'val it : int = 1' });
+        server.respond('bad', {
+            error: 'Error: Unbound value bad',
+            diagnostic: { file: null, range: [2, 0, 2, 3], kind: 'type', message: 'Unbound value bad' },
+        });
+
+        await client.executeForResult('good', { location });
+        assert.deepStrictEqual(decorations.getLatestHighlightedRange(CommandDecorationType.success, uri), location.range);
+
+        await assert.rejects(client.executeForResult('bad', { location }));
+        assert.deepStrictEqual(decorations.getLatestHighlightedRange(CommandDecorationType.failure, uri), location.range);
+        assert.strictEqual(decorations.getLatestHighlightedRange(CommandDecorationType.success, uri), undefined);
+        assert.deepStrictEqual(diagnostics.get(uri)?.map(d => [d.range, d.code]),
+            [[new vscode.Range(2, 4, 2, 7), 'type']]);
+    });
+
+    test('Search results', async () => {
+        await connect();
+        server.respond('search', {
+            result: 'val it : (string * thm) list =\n  [("ADD_SYM", |- !m n. m + n = n + m);\n   ("ADD_AC", |- (m + n = n + m) /\\ (m + (n + p) = n + (m + p)))]',
+        });
+
+        const provider = new SearchResultsProvider();
+        provider.updateSearchResults(await client.executeForResult('search([`_ + _ = _`]);;'));
+        assert.deepStrictEqual(provider.getChildren().map(item => [item.name, item.body]), [
+            ['ADD_SYM', '!m n. m + n = n + m'],
+            ['ADD_AC', '(m + n = n + m) /\\ (m + (n + p) = n + (m + p))'],
+        ]);
+    });
+
+    test('Authentication', async () => {
+        token = 'secret';
+        await connect({ token: 'secret' });
+
+        assert.strictEqual(await client.executeForResult('1', { silent: true }), '');
+        assert.deepStrictEqual(server.requests.map(r => r.input), ['1;;']);
+    });
+});
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+
+import { hypothesisArgumentContext } from '../../hypothesis-completion';
+
+suite('Hypothesis Completion Test Suite', () => {
+    test('hypothesisArgumentContext', () => {
+        assert.deepStrictEqual(hypothesisArgumentContext('e(USE_THEN "'), { stringStart: 11 });
+        assert.deepStrictEqual(hypothesisArgumentContext('  REMOVE_THEN "H'), { stringStart: 14 });
+        assert.deepStrictEqual(hypothesisArgumentContext('DISCH_THEN(LABEL_TAC "'), { stringStart: 21 });
+        assert.deepStrictEqual(hypothesisArgumentContext('e(FIRST_X_ASSUM('), {});
+        assert.deepStrictEqual(hypothesisArgumentContext('ASSUME_TAC H'), {});
+        // Other strings and positions
+        assert.strictEqual(hypothesisArgumentContext('needs "'), undefined);
+        assert.strictEqual(hypothesisArgumentContext('let s = "H'), undefined);
+        assert.strictEqual(hypothesisArgumentContext('e(USE_THEN "H1" MP_TAC'), undefined);
+        assert.strictEqual(hypothesisArgumentContext('e(REWRITE_TAC['), undefined);
+        assert.strictEqual(hypothesisArgumentContext('let x = 1'), undefined);
+        // Inside a term
+        assert.strictEqual(hypothesisArgumentContext('e(ASSUME `x'), undefined);
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'path';
+
+import * as vscode from 'vscode';
+
+import { CustomCommandNames } from '../../config';
+import { IndexCache, deserializeParseResult, serializeParseResult } from '../../index-cache';
+import { parseText } from '../../parser';
+
+suite('Index Cache Test Suite', () => {
+    const customNames: CustomCommandNames = {
+        customDefinitions: [],
+        customImports: [],
+        customTheorems: []
+    };
+
+    test('Serialization', async () => {
+        const docPath = path.join(__dirname, '../../../src/test/examples', 'modules.hl');
+        const docUri = vscode.Uri.file(docPath);
+        const text = await fs.readFile(docPath, 'utf-8');
+        const result = parseText(text, docUri, { customNames, debug: false });
+
+        const cached = JSON.parse(JSON.stringify(serializeParseResult(result)));
+        const restored = deserializeParseResult(cached, docUri);
+
+        assert.deepStrictEqual(serializeParseResult(restored), serializeParseResult(result));
+        assert.strictEqual(restored.modules.length, result.modules.length, 'Modules');
+        assert.deepStrictEqual(
+            restored.modules.map(mod => [mod.fullName, mod.definitions.length, mod.modules.length]),
+            result.modules.map(mod => [mod.fullName, mod.definitions.length, mod.modules.length]),
+            'Module structure'
+        );
+        assert.deepStrictEqual(restored.definitions[0].getLocation(), result.definitions[0].getLocation(), 'Locations');
+    });
+
+    test('Invalidation', async () => {
+        const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hol-light-cache-'));
+        try {
+            const filePath = path.join(cacheDir, 'test.hl');
+            // Entries of files which do not exist are not saved
+            await fs.writeFile(filePath, 'let x = 1;;');
+            const result = parseText('let x = 1;;', vscode.Uri.file(filePath), { customNames, debug: false });
+            const cache = new IndexCache(cacheDir);
+            await cache.set(filePath, 10, customNames, result);
+            await cache.save();
+
+            const loaded = new IndexCache(cacheDir);
+            assert.strictEqual((await loaded.get(filePath, 10, customNames))?.definitions[0].name, 'x');
+            assert.strictEqual(await loaded.get(filePath, 11, customNames), undefined, 'Modified file');
+            const otherNames = { ...customNames, customTheorems: ['my_prove'] };
+            assert.strictEqual(await loaded.get(filePath, 10, otherNames), undefined, 'Changed custom names');
+        } finally {
+            await fs.rm(cacheDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Deleted files', async () => {
+        const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hol-light-cache-'));
+        try {
+            const filePath = path.join(cacheDir, 'test.hl');
+            const deletedPath = path.join(cacheDir, 'deleted.hl');
+            await fs.writeFile(filePath, 'let x = 1;;');
+            const cache = new IndexCache(cacheDir);
+            await cache.set(filePath, 10, customNames, parseText('let x = 1;;', vscode.Uri.file(filePath), { customNames, debug: false }));
+            await cache.set(deletedPath, 10, customNames, parseText('let y = 1;;', vscode.Uri.file(deletedPath), { customNames, debug: false }));
+            await cache.save();
+
+            const loaded = new IndexCache(cacheDir);
+            assert.strictEqual((await loaded.get(filePath, 10, customNames))?.definitions[0].name, 'x');
+            assert.strictEqual(await loaded.get(deletedPath, 10, customNames), undefined, 'Deleted file');
+        } finally {
+            await fs.rm(cacheDir, { recursive: true, force: true });
+        }
+    });
+});
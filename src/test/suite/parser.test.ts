@@ -3,7 +3,7 @@ import * as path from 'path';
 
 import * as vscode from 'vscode';
 
-import { parseText, Definition, DefinitionType, Dependency, Module, OpenDecl } from '../../parser';
+import { parseProof, parseText, Definition, DefinitionType, Dependency, Module, OpenDecl } from '../../parser';
 import { CustomCommandNames } from '../../config';
 
 suite('Parser Test Suite', () => {
@@ -55,6 +55,38 @@ suite('Parser Test Suite', () => {
         assert.deepEqual(mods[0].modules, [mods[1], mods[2], mods[3]], 'Utils submodules');
 
         assert.ok(mods.slice(1).every((mod, i) => mod.position.isAfter(mods[i].position)), 'Module start positions are sorted');
+
+        const defs = result.definitions;
+        assert.deepEqual(defs[1].endPosition, new vscode.Position(8, 30), 'The end of mapn (the end of a module)');
+        assert.deepEqual(defs[2].endPosition, new vscode.Position(39, 17), 'The end of test_expr (before ;;)');
+    });
+
+    test('References', () => {
+        const text = [
+            'let th = ARITH_RULE `th = 1`;;',
+            'let f th = th;;',
+            'let g = fun th -> MP_TAC th;;',
+            'let h x = let th = x in th;;',
+            'let k = match [th] with th :: _ -> th | _ -> (* th *) "th";;',
+            'let th2 = CONJ th Module.th;;',
+        ].join('\n');
+        const result = parseText(text, vscode.Uri.file('/test.hl'), { customNames, debug: false });
+        assert.deepEqual(
+            result.references.filter(ref => ref.name.split('.').includes('th')).map(ref => [ref.name, ref.position.line, ref.position.character]),
+            [['th', 0, 4], ['th', 4, 15], ['th', 5, 15], ['Module.th', 5, 18]],
+            'References to th (local names are skipped)');
+    });
+
+    test('parseProof', () => {
+        const text = 'let FOO = prove\n (`x = x`,\n  REWRITE_TAC[] THEN (* comment *) ARITH_TAC)';
+        const proof = parseProof(text, { customNames, debug: false });
+        assert.ok(proof);
+        assert.strictEqual(proof.name, 'FOO');
+        assert.strictEqual(text.slice(proof.termStart, proof.termEnd), '`x = x`');
+        assert.strictEqual(text.slice(proof.tacticStart, proof.tacticEnd), 'REWRITE_TAC[] THEN (* comment *) ARITH_TAC');
+
+        assert.strictEqual(parseProof('let FOO = ARITH_RULE `1 = 1`', { customNames, debug: false }), null);
+        assert.strictEqual(parseProof('let x = 1', { customNames, debug: false }), null);
     });
 
 });
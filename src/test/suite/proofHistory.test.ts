@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+
+import { ProofStep, buildProof, getProofCommandArgument } from '../../proof-history';
+
+suite('Proof History Test Suite', () => {
+    test('getProofCommandArgument', () => {
+        assert.strictEqual(getProofCommandArgument('g(`x = x`);;'), '`x = x`');
+        assert.strictEqual(getProofCommandArgument('e (REWRITE_TAC[]);;\n'), 'REWRITE_TAC[]');
+        assert.strictEqual(getProofCommandArgument('er(MP_TAC (SPEC `(x:num)` th))'), 'MP_TAC (SPEC `(x:num)` th)');
+        assert.strictEqual(getProofCommandArgument('e (A) THEN (B);;'), '(A) THEN (B)');
+        assert.strictEqual(getProofCommandArgument('r 1;;'), '1');
+    });
+
+    test('buildProof', () => {
+        const steps: ProofStep[] = [
+            { command: 'g', argument: '`p /\\ q /\\ r`', goals: 1 },
+            { command: 'e', argument: 'REPEAT CONJ_TAC', goals: 3 },
+            { command: 'r', argument: '1', goals: 3 },
+            { command: 'e', argument: 'WRONG_TAC', goals: 3 },
+            { command: 'b', argument: '', goals: 3 },
+            { command: 'e', argument: 'A ORELSE B', goals: 2 },
+            { command: 'er', argument: 'STRIP_TAC', goals: 2 },
+            { command: 'e', argument: 'C', goals: 1 },
+        ];
+        const proof = buildProof(steps);
+        assert.deepStrictEqual(proof, {
+            goal: '`p /\\ q /\\ r`',
+            goalLocation: undefined,
+            tactic: 'REPEAT CONJ_TAC THENL [\n    C;\n    (A ORELSE B);\n    STRIP_TAC THEN\n    ALL_TAC\n  ]',
+            unproved: 1,
+        });
+        assert.strictEqual(buildProof(steps.slice(1)), null);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+
+import { ProofStep } from '../../proof-history';
+import { buildProofTree } from '../../proof-tree';
+
+suite('Proof Tree Test Suite', () => {
+    test('buildProofTree', () => {
+        const history: ProofStep[] = [
+            { command: 'g', argument: '`p /\\ q /\\ r`' },
+            { command: 'e', argument: 'REPEAT CONJ_TAC' },
+            { command: 'r', argument: '1' },
+            { command: 'e', argument: 'ARITH_TAC' },
+        ];
+        const transitions = [[-1], [-1, -1, -1], [1, 2, 0], [1, 2]];
+        assert.deepStrictEqual(buildProofTree(transitions, history), {
+            tactic: 'REPEAT CONJ_TAC',
+            location: undefined,
+            goalIndex: undefined,
+            closed: false,
+            children: [
+                { tactic: undefined, location: undefined, goalIndex: 1, closed: false, children: [] },
+                { tactic: 'ARITH_TAC', location: undefined, goalIndex: undefined, closed: true, children: [] },
+                { tactic: undefined, location: undefined, goalIndex: 0, closed: false, children: [] },
+            ],
+        });
+    });
+
+    test('Unknown tactics', () => {
+        const tree = buildProofTree([[-1], [-1]], []);
+        assert.strictEqual(tree?.tactic, '?');
+        assert.strictEqual(tree?.children[0].goalIndex, 0);
+        assert.strictEqual(buildProofTree([], []), undefined);
+    });
+});
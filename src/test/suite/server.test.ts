@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TextDecoder } from 'node:util';
+
+import { CommandDecorations } from '../../decoration';
+import { GoalViewPanel } from '../../goal-view';
+import { HolClient, HolClientRepl } from '../../hol-client';
+import { CONTROLLER_ID, NOTEBOOK_TYPE } from '../../notebook';
+import { Repl } from '../../repl';
+import { StatementTimings } from '../../timing';
+import { MockHolServer, waitFor } from '../mockServer';
+
+const EXTENSION_ID = 'monadius.hol-light-simple';
+
+// Extension features which read results from a HOL Light server
+suite('Server Features Test Suite', () => {
+    let server: MockHolServer;
+    let client: HolClient;
+    let diagnostics: vscode.DiagnosticCollection;
+
+    const clientRepl: HolClientRepl = {
+        timings: new StatementTimings(),
+        getServerToken: () => Promise.resolve(undefined),
+        storeServerToken: () => Promise.resolve(),
+        deleteServerToken: () => Promise.resolve(),
+        createHolClientTerminal: () => {},
+    };
+
+    setup(async () => {
+        server = new MockHolServer();
+        const address = await server.start();
+        diagnostics = vscode.languages.createDiagnosticCollection('test');
+        client = new HolClient(address, new CommandDecorations({}), diagnostics, clientRepl);
+        client.open(undefined);
+        await client.executeForResult('1', { silent: true });
+        server.clearRequests();
+        // The extension REPL sends all commands to the client
+        Repl.setDefaultExecutor(client);
+        await vscode.commands.executeCommand('hol-light.repl');
+    });
+
+    teardown(async () => {
+        Repl.setDefaultExecutor(undefined);
+        await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+        client.close();
+        await server.close();
+        diagnostics.dispose();
+    });
+
+    test('Goal view refresh', async () => {
+        server.setGoalstate({ goals: [{ hypotheses: [{ label: 'H', term: 'x > 0' }], term: 'x >= 1' }], subgoals: 1 });
+        await vscode.commands.executeCommand('hol-light.show_goal_view');
+        assert.ok(GoalViewPanel.currentPanel);
+
+        assert.strictEqual(await GoalViewPanel.refresh(undefined), true);
+        const queries = server.requests.filter(r => r.channel === 'query').map(r => r.input);
+        assert.ok(queries.some(input => input.includes('Hol_light_json.json_of_top_goalstate')));
+        assert.ok(queries.some(input => input.includes('!print_types_of_subterms')));
+        assert.deepStrictEqual(server.requests.filter(r => r.channel === 'main'), []);
+
+        GoalViewPanel.currentPanel.dispose();
+        assert.strictEqual(await GoalViewPanel.refresh(undefined), false);
+    });
+
+    test('Notebook controller', async () => {
+        server.respond('let x', { result: 'val x : int = 1' });
+        server.respond('bad', { error: 'Error: Unbound value bad' });
+        const notebook = await vscode.workspace.openNotebookDocument(NOTEBOOK_TYPE, new vscode.NotebookData([
+            new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'let x = 1;;', 'hol-light-ocaml'),
+            new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'bad;;', 'hol-light-ocaml'),
+        ]));
+        await vscode.window.showNotebookDocument(notebook);
+        await vscode.commands.executeCommand('notebook.selectKernel', { id: CONTROLLER_ID, extension: EXTENSION_ID });
+        await vscode.commands.executeCommand('notebook.execute');
+        await waitFor(() => notebook.getCells().every(cell => cell.executionSummary?.success !== undefined), 5000);
+
+        const [good, bad] = notebook.getCells();
+        const text = (item: vscode.NotebookCellOutputItem) => new TextDecoder().decode(item.data);
+        assert.strictEqual(good.executionSummary?.success, true);
+        assert.deepStrictEqual(good.outputs.map(out => [out.items[0].mime, text(out.items[0])]), [
+            ['text/markdown', '`x : int`'],
+            ['text/plain', '1'],
+        ]);
+        assert.strictEqual(bad.executionSummary?.success, false);
+        assert.match(text(bad.outputs[0].items[0]), /Unbound value bad/);
+        assert.deepStrictEqual(server.requests.filter(r => r.channel === 'main').map(r => r.input), ['let x = 1;;', 'bad;;']);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { splitTactic } from '../../tactic';
+
+suite('Tactic Test Suite', () => {
+    async function split(text: string): Promise<[string, string][]> {
+        const document = await vscode.workspace.openTextDocument({ content: text });
+        const range = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+        return splitTactic(document, range).map(step => [step.command, document.getText(step.range)]);
+    }
+
+    test('THEN', async () => {
+        assert.deepStrictEqual(await split('REWRITE_TAC[A; B] THEN\n  (* comment *) MP_TAC (SPEC `x:num` th)'), [
+            ['e', 'REWRITE_TAC[A; B]'],
+            ['e', 'MP_TAC (SPEC `x:num` th)'],
+        ]);
+        assert.deepStrictEqual(await split('(STRIP_TAC THEN ARITH_TAC) THEN REPEAT (GEN_TAC THEN DISCH_TAC)'), [
+            ['e', 'STRIP_TAC'],
+            ['e', 'ARITH_TAC'],
+            ['e', 'REPEAT (GEN_TAC THEN DISCH_TAC)'],
+        ]);
+    });
+
+    test('THENL', async () => {
+        assert.deepStrictEqual(await split('CONJ_TAC THENL [\n  STRIP_TAC THEN ARITH_TAC;\n  ASM_MESON_TAC[];\n  SIMP_TAC[]\n] THEN REFL_TAC'), [
+            ['e', 'CONJ_TAC'],
+            ['e', 'STRIP_TAC'],
+            ['er', 'ARITH_TAC'],
+            ['er', 'ASM_MESON_TAC[]'],
+            ['e', 'SIMP_TAC[]'],
+            ['e', 'REFL_TAC'],
+        ]);
+        assert.deepStrictEqual(await split('GEN_TAC THEN CONJ_TAC THENL (map MATCH_ACCEPT_TAC ths)'), [
+            ['e', 'GEN_TAC'],
+            ['e', 'CONJ_TAC THENL (map MATCH_ACCEPT_TAC ths)'],
+        ]);
+    });
+});
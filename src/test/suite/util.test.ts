@@ -2,7 +2,7 @@ import * as assert from 'assert';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
-import { cancelPreviousCall, difference, escapeMarkdown, filterMap, getWordAtPosition } from '../../util'; // Adjust the path as necessary
+import { adjustRange, cancelPreviousCall, difference, escapeMarkdown, filterMap, getWordAtPosition } from '../../util'; // Adjust the path as necessary
 
 suite('util', () => {
     suite('filterMap', () => {
@@ -31,6 +31,29 @@ suite('util', () => {
         });
     });
 
+    suite('adjustRange', () => {
+        const range = new vscode.Range(2, 4, 3, 10);
+
+        test('changes after the range do not affect it', () => {
+            const change = { range: new vscode.Range(3, 10, 4, 0), text: 'abc\n' };
+            assert.deepStrictEqual(adjustRange(range, change), range);
+        });
+
+        test('changes before the range shift it', () => {
+            assert.deepStrictEqual(adjustRange(range, { range: new vscode.Range(2, 0, 2, 2), text: '' }),
+                new vscode.Range(2, 2, 3, 10));
+            assert.deepStrictEqual(adjustRange(range, { range: new vscode.Range(1, 0, 1, 0), text: 'a\nb\n' }),
+                new vscode.Range(4, 4, 5, 10));
+        });
+
+        test('changes inside the range resize it', () => {
+            assert.deepStrictEqual(adjustRange(range, { range: new vscode.Range(3, 0, 3, 5), text: 'x' }),
+                new vscode.Range(2, 4, 3, 6));
+            assert.deepStrictEqual(adjustRange(range, { range: new vscode.Range(2, 0, 3, 5), text: '' }),
+                new vscode.Range(2, 0, 2, 5));
+        });
+    });
+
     suite('difference', () => {
         test('should return elements in xs that are not in ys', () => {
             const xs = new Set([1, 2, 3, 4]);
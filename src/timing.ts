@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+
+import * as pathLib from 'node:path';
+
+export interface StatementTiming {
+    location: vscode.Location;
+    // The first line of the statement
+    text: string;
+    // Wall-clock time in seconds
+    wall: number;
+    // CPU time in seconds
+    cpu: number;
+}
+
+export function formatSeconds(seconds: number): string {
+    if (seconds < 1) {
+        return `${Math.round(seconds * 1000)} ms`;
+    }
+    if (seconds < 60) {
+        return `${seconds.toFixed(2)} s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes} min ${Math.round(seconds - minutes * 60)} s`;
+}
+
+export function timingHoverMessage(timing: { wall: number, cpu: number }): vscode.MarkdownString {
+    return new vscode.MarkdownString(`Time: ${formatSeconds(timing.wall)} (CPU: ${formatSeconds(timing.cpu)})`);
+}
+
+/**
+ * Execution times of statements evaluated during the current session.
+ * Only the latest timing of each statement is kept.
+ */
+export class StatementTimings {
+    private timings = new Map<string, StatementTiming[]>();
+
+    record(timing: StatementTiming) {
+        const key = timing.location.uri.toString();
+        const timings = (this.timings.get(key) ?? []).filter(t => !t.location.range.start.isEqual(timing.location.range.start));
+        timings.push(timing);
+        this.timings.set(key, timings);
+    }
+
+    /**
+     * Returns timings of statements in the given document (or all timings if uri is undefined)
+     * sorted by wall-clock time in descending order.
+     */
+    getSlowest(uri?: vscode.Uri): StatementTiming[] {
+        const timings = uri ? this.timings.get(uri.toString()) ?? [] : [...this.timings.values()].flat();
+        return timings.sort((a, b) => b.wall - a.wall);
+    }
+
+    clear() {
+        this.timings.clear();
+    }
+}
+
+interface TimingItem extends vscode.QuickPickItem {
+    timing: StatementTiming;
+}
+
+/**
+ * Shows the slowest statements of the given document (or of the whole session)
+ * and reveals the selected statement.
+ */
+export function showSlowestStatements(timings: StatementTimings, uri?: vscode.Uri) {
+    const input = vscode.window.createQuickPick<TimingItem>();
+    const toggleButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('files'),
+        tooltip: 'Toggle between the current file and the whole session',
+    };
+    let sessionScope = !uri;
+
+    const update = () => {
+        input.title = sessionScope ? 'Slowest statements (session)' : `Slowest statements (${pathLib.basename(uri!.fsPath)})`;
+        input.items = timings.getSlowest(sessionScope ? undefined : uri).map(timing => ({
+            label: `$(watch) ${formatSeconds(timing.wall)}`,
+            description: timing.text,
+            detail: `${vscode.workspace.asRelativePath(timing.location.uri)}:${timing.location.range.start.line + 1} (CPU: ${formatSeconds(timing.cpu)})`,
+            timing,
+        }));
+        input.placeholder = input.items.length ? 'Select a statement to reveal it' : 'No timings available: execute statements with a HOL Light server';
+    };
+
+    input.matchOnDescription = true;
+    input.matchOnDetail = true;
+    if (uri) {
+        input.buttons = [toggleButton];
+    }
+    input.onDidTriggerButton(() => {
+        sessionScope = !sessionScope;
+        update();
+    });
+    input.onDidAccept(async () => {
+        const location = input.selectedItems[0]?.timing.location;
+        input.hide();
+        if (location) {
+            const editor = await vscode.window.showTextDocument(location.uri);
+            editor.selection = new vscode.Selection(location.range.start, location.range.start);
+            editor.revealRange(location.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    });
+    input.onDidHide(() => input.dispose());
+
+    update();
+    input.show();
+}
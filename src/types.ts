@@ -1,11 +1,25 @@
+// A subterm of a printed term. Positions refer to the text without ANSI escape sequences.
+export type TermSpan = {
+  start: number;
+  end: number;
+  type: string;
+  kind: 'var' | 'const' | 'comb' | 'abs';
+  // The name of a variable or a constant
+  name?: string;
+  // True for bound variables
+  bound?: boolean;
+};
+
 export type Hypothesis = {
   label: string;
   term: string;
+  spans?: TermSpan[];
 }
 
 export type Goal = {
   hypotheses: Hypothesis[];
   term: string;
+  spans?: TermSpan[];
 }
 
 export type Goalstate = {
@@ -18,6 +32,58 @@ export type GoalOptions = {
   margin?: number;
   maxBoxes?: number;
   maxHypBoxes?: number;
+  // Show the proof tree instead of the list of goals
+  proofTree?: boolean;
+  // Highlight differences between the previous and the current goal states
+  showDiff?: boolean;
+  // Request spans of subterms from the server
+  spans?: boolean;
+  // Show goals in a list where only the current goal is expanded
+  collapseGoals?: boolean;
+};
+
+// A location in a text document: [start line, start character, end line, end character]
+export type SourceLocation = {
+  uri: string;
+  range: [number, number, number, number];
+};
+
+export type ProofTreeNode = {
+  // The tactic applied to the goal (undefined for current goals)
+  tactic?: string;
+  location?: SourceLocation;
+  // The index of the goal in the current goal state (for current goals only)
+  goalIndex?: number;
+  // True if all goals in this subtree are proved
+  closed: boolean;
+  children: ProofTreeNode[];
+};
+
+// The position of the displayed goal state in the goal view history
+export type GoalHistoryInfo = {
+  index: number;
+  length: number;
+  // True if the latest goal state is displayed
+  live: boolean;
+  // The last proof command before the displayed goal state
+  tactic?: string;
+  location?: SourceLocation;
+};
+
+// Actions for hypotheses and conclusions in the goal view:
+// - use-then: insert `USE_THEN "label"`
+// - spec-then: insert `FIRST_X_ASSUM(MP_TAC o SPEC ...)`
+// - remove-then: execute `REMOVE_THEN "label" MP_TAC`
+// - copy-term: copy the term as a backquoted HOL term
+// - insert-term: insert the term as a backquoted HOL term
+export type GoalActionKind = 'use-then' | 'spec-then' | 'remove-then' | 'copy-term' | 'insert-term';
+
+export type GoalAction = {
+  kind: GoalActionKind;
+  // The hypothesis label (undefined for the conclusion and for unlabeled hypotheses)
+  label?: string;
+  // The term without ANSI escape sequences
+  term: string;
 };
 
 export type GoalviewState = {
@@ -35,12 +101,20 @@ type MessageOpt<Command extends MessageCommands, T> = {
 }
 
 type Messages = {
-  'update': Message<'update', { goalstate: Goalstate; printTypes: number }>;
+  'update': Message<'update', { goalstate: Goalstate; printTypes: number; proofTree?: ProofTreeNode; previousGoalstate?: Goalstate; history?: GoalHistoryInfo }>;
   'refresh': Message<'refresh', GoalOptions>;
   'restore': MessageOpt<'restore', GoalviewState>; 
   'print-types': Message<'print-types', number>;
   'error': Message<'error', string>;
   'constant-info': Message<'constant-info', { id: string, text: string | null }>;
+  'reveal-location': Message<'reveal-location', SourceLocation>;
+  // Moves through the goal view history by the given number of steps
+  'history': Message<'history', number>;
+  'goal-action': Message<'goal-action', GoalAction>;
+  // Makes the goal with the given index current
+  'focus-goal': Message<'focus-goal', number>;
+  // Exports the displayed goal state
+  'export-goals': MessageOpt<'export-goals', never>;
 }
 
 export type MessageCommands = keyof Messages;
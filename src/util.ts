@@ -46,6 +46,31 @@ export function locationStartEnd(document: vscode.TextDocument, start: number |
     return new vscode.Location(document.uri, new vscode.Range(pos1, pos2));
 }
 
+/**
+ * Returns the range which corresponds to the given range after a document change.
+ * Positions inside the replaced text are moved to the boundaries of the new text.
+ */
+export function adjustRange(range: vscode.Range, change: { range: vscode.Range, text: string }): vscode.Range {
+    const { start, end } = change.range;
+    const lines = change.text.split('\n');
+    const newEnd = lines.length === 1
+        ? start.translate(0, lines[0].length)
+        : new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+    const adjust = (pos: vscode.Position, inside: vscode.Position) => {
+        if (pos.isBeforeOrEqual(start)) {
+            return pos;
+        }
+        if (pos.isBefore(end)) {
+            return inside;
+        }
+        if (pos.line === end.line) {
+            return new vscode.Position(newEnd.line, newEnd.character + pos.character - end.character);
+        }
+        return pos.translate(newEnd.line - end.line);
+    };
+    return new vscode.Range(adjust(range.start, start), adjust(range.end, newEnd));
+}
+
 export function difference<T>(xs: Iterable<T>, ys: Iterable<T>): T[] {
     const s = ys instanceof Set ? ys : new Set(ys);
     return [...xs].filter(x => !s.has(x));
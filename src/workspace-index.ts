@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+import * as config from './config';
+import { Database } from './database';
+
+/**
+ * Indexes all HOL Light files in the workspace which match the hol-light.workspaceIndexGlob
+ * pattern. If hol-light.indexWorkspace is true then the index is updated by a file system watcher.
+ */
+export class WorkspaceIndexer implements vscode.Disposable {
+    private watcher?: vscode.FileSystemWatcher;
+
+    // Cancels the current scan of the workspace
+    private scanCancellation?: vscode.CancellationTokenSource;
+
+    constructor(private readonly database: Database) {
+    }
+
+    dispose() {
+        this.stop();
+    }
+
+    private stop() {
+        this.scanCancellation?.cancel();
+        this.scanCancellation = undefined;
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    private getGlob(): string {
+        return config.getConfigOption(config.WORKSPACE_INDEX_GLOB, '**/*.{ml,hl}') || '**/*.{ml,hl}';
+    }
+
+    /**
+     * Starts or stops the file system watcher and scans the workspace according to the current configuration.
+     */
+    update() {
+        this.stop();
+        if (!config.getConfigOption(config.INDEX_WORKSPACE, false) || !vscode.workspace.workspaceFolders?.length) {
+            return;
+        }
+        const watcher = this.watcher = vscode.workspace.createFileSystemWatcher(this.getGlob());
+        watcher.onDidCreate(uri => this.indexFile(uri));
+        watcher.onDidChange(uri => this.indexFile(uri));
+        watcher.onDidDelete(uri => this.database.removeFile(uri.fsPath));
+        this.scan();
+    }
+
+    private async indexFile(uri: vscode.Uri) {
+        // Unsaved changes of open documents are indexed separately
+        if (vscode.workspace.textDocuments.some(doc => doc.isDirty && doc.uri.fsPath === uri.fsPath)) {
+            return;
+        }
+        const holPath = config.getConfigOption(config.HOLLIGHT_PATH, '');
+        await this.database.indexFiles([uri.fsPath], holPath, config.getRootPaths());
+    }
+
+    /**
+     * Indexes all workspace files matching the glob pattern.
+     * The progress is shown in a notification which can be cancelled.
+     */
+    async scan() {
+        this.scanCancellation?.cancel();
+        const source = this.scanCancellation = new vscode.CancellationTokenSource();
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Indexing workspace',
+            cancellable: true,
+        }, async (progress, token) => {
+            token.onCancellationRequested(() => source.cancel());
+            const uris = await vscode.workspace.findFiles(this.getGlob(), undefined, undefined, source.token);
+            const holPath = config.getConfigOption(config.HOLLIGHT_PATH, '');
+            await this.database.indexFiles(uris.map(uri => uri.fsPath), holPath, config.getRootPaths(), source.token, progress);
+        });
+        source.dispose();
+        if (this.scanCancellation === source) {
+            this.scanCancellation = undefined;
+        }
+    }
+}